@@ -1,37 +1,70 @@
 import React, { useEffect, useRef, useState, useCallback } from "react";
 import SketchContainer from "./components/SketchContainer";
-import { initializeVision, analyzeFrame } from "./services/visionService";
-import { TreeState, FlowerStyle } from "./types";
+import CalibrationOverlay from "./components/CalibrationOverlay";
+import CaptureControls from "./components/CaptureControls";
+import DebugOverlay from "./components/DebugOverlay";
+import SettingsPanel from "./components/SettingsPanel";
+import SceneEditor from "./components/SceneEditor";
+import { DEFAULT_INPUT_SOURCE_ID, getInputSource, listInputSources } from "./services/inputSources";
+import { SketchTuning, TreeSketchHooks } from "./services/treeSketch";
+import { playbackSource } from "./services/playbackSource";
+import { createSessionRecorder, parseSession, RecordedSession, serializeSession, SessionRecorder } from "./services/sessionRecording";
+import { findUnstableFrame, sessionTimeline } from "./services/headlessRender";
+import { downloadBlob, timestampForFilename } from "./services/fileExport";
+import { getFlowerSpecies, listFlowerSpecies, petalPathData } from "./services/flowerSpecies";
+import { listTreeSpecies } from "./services/treeSpecies";
+import { createGrowthTracker, GrowthProfile, parseGrowthState } from "./services/treeGrowth";
+import {
+  cssGradient,
+  Environment,
+  EnvironmentSettings,
+  resolveEnvironment,
+  Season,
+  SEASON_NAMES,
+  TimeOfDay,
+  TIME_OF_DAY_NAMES,
+} from "./services/environment";
+import { WEATHER_NAMES, WeatherSetting } from "./services/weather";
+import { DEFAULT_SCENE_ID, getScene, isPresetScene, listScenes } from "./services/scene";
+import { getLastVisionData, resetVisionFilter, setInferenceRate } from "./services/visionService";
+import { getSettings, Settings, subscribeSettings, updateSettings } from "./services/settings";
+import {
+  CameraDevice,
+  CameraResolution,
+  CameraSettings,
+  FRAME_RATES,
+  isPermissionError,
+  listCameras,
+  loadCameraSettings,
+  openCamera,
+  RESOLUTIONS,
+  saveCameraSettings,
+  stopStream,
+  watchStream,
+} from "./services/cameraService";
+import { TreeState, FlowerStyle, TreeAction, VisionData, Scene } from "./types";
 
-type InteractionMode = 'click' | 'smile' | 'forever';
-
-// Minimalist Flower Icon Component
+// Minimalist Flower Icon Component, drawn from the species definition
 const FlowerIcon = ({ style, isSelected }: { style: FlowerStyle, isSelected: boolean }) => {
   const baseClass = "w-8 h-8 transition-all duration-300";
   const stateClass = isSelected 
     ? "text-pink-400 drop-shadow-[0_0_8px_rgba(244,114,182,0.8)] scale-110 opacity-100" 
     : "text-white/30 hover:text-white/60 hover:scale-105 opacity-70";
+  const species = getFlowerSpecies(style);
+  const petal = species.petal;
 
   return (
-    <div className={`${baseClass} ${stateClass}`} title={style.charAt(0).toUpperCase() + style.slice(1)}>
+    <div className={`${baseClass} ${stateClass}`} title={species.name}>
       <svg viewBox="0 0 100 100" fill="currentColor" className="w-full h-full">
-        <g transform="translate(50,50)">
-          {style === 'peach' && (
-            [0, 72, 144, 216, 288].map(r => (
-               <ellipse key={r} cx="0" cy="-25" rx="16" ry="20" transform={`rotate(${r})`} />
-            ))
-          )}
-          {style === 'sakura' && (
-             [0, 72, 144, 216, 288].map(r => (
-               <path key={r} d="M0 0 Q -20 -25 0 -45 Q 20 -25 0 0" transform={`rotate(${r})`} />
-            ))
-          )}
-          {style === 'delonix' && (
-            [0, 72, 144, 216, 288].map(r => (
-               <path key={r} d="M0 0 L -1.5 -26 A 6 8 0 1 1 1.5 -26 L 0 0" transform={`rotate(${r})`} />
-            ))
-          )}
-          <circle cx="0" cy="0" r="8" fill="currentColor" className="opacity-50" />
+        {/* Unit-space species drawn at ~50px per unit */}
+        <g transform="translate(50,50) scale(48)">
+          {Array.from({ length: species.petalCount }, (_, i) => {
+            const rotate = `rotate(${(360 / species.petalCount) * i})`;
+            return petal.kind === 'ellipse'
+              ? <ellipse key={i} cx={petal.cx} cy={petal.cy} rx={petal.w / 2} ry={petal.h / 2} transform={rotate} />
+              : <path key={i} d={petalPathData(petal.commands)} transform={rotate} />;
+          })}
+          <circle cx="0" cy="0" r={species.center.size / 2} fill="currentColor" className="opacity-50" />
         </g>
       </svg>
     </div>
@@ -81,6 +114,9 @@ const TreeCountIcon = ({ count, isSelected }: { count: number, isSelected: boole
   );
 };
 
+// Built-in scenes keep their tree count icons
+const PRESET_ICONS: Record<string, number> = { single: 1, pair: 2, forest: 3 };
+
 // Reusable Toggle Button Component
 const ModeToggle = ({ 
   isActive, 
@@ -116,23 +152,82 @@ const ModeToggle = ({
   );
 };
 
+type PermissionDevice = 'camera' | 'microphone';
+
+const PERMISSION_TEXT: Record<PermissionDevice, { title: string; body: string }> = {
+  camera: {
+    title: "需要摄像头权限",
+    body: "微笑开花模式需要使用摄像头来识别您的表情。请在浏览器设置中允许摄像头访问。",
+  },
+  microphone: {
+    title: "需要麦克风权限",
+    body: "声音开花模式需要使用麦克风来听您的笑声和歌声。请在浏览器设置中允许麦克风访问。",
+  },
+};
+
+// Toggles the diagnostics overlay
+const DEBUG_HOTKEY = "d";
+
+// Delay between attempts to get a lost camera back
+const CAMERA_RECONNECT_MS = 2000;
+
+// Replay check covers the first five seconds of a session at most
+const REPLAY_CHECK_FPS = 30;
+const REPLAY_CHECK_MAX_FRAMES = 150;
+
 const App: React.FC = () => {
   // App States
-  const [modelsLoaded, setModelsLoaded] = useState(false);
-  const [isLoadingSmile, setIsLoadingSmile] = useState(false);
-  const [permissionError, setPermissionError] = useState(false);
-  const [flowerStyle, setFlowerStyle] = useState<FlowerStyle>('peach');
-  const [interactionMode, setInteractionMode] = useState<InteractionMode>('click');
-  // 1 = 1 tree, 2 = 2 trees, 3 = 10 trees
-  const [sceneMode, setSceneMode] = useState<number>(1); 
+  const [startingSource, setStartingSource] = useState<string | null>(null);
+  // Device that was refused, shows the permission overlay
+  const [permissionError, setPermissionError] = useState<PermissionDevice | null>(null);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showDebug, setShowDebug] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<Settings>(getSettings);
+  const [isRecording, setIsRecording] = useState(false);
+  // Last imported session, for the replay check
+  const [loadedSession, setLoadedSession] = useState<RecordedSession | null>(null);
+  const [checkingReplay, setCheckingReplay] = useState(false);
+  // Created once, loads the persisted growth state
+  const [growthTracker] = useState(createGrowthTracker);
+  const [growthInfo, setGrowthInfo] = useState(growthTracker.getState());
+  // Selections start from the last session
+  const [flowerStyle, setFlowerStyle] = useState<FlowerStyle>(settings.flowerStyle);
+  // Id of the active InputSource
+  const [interactionMode, setInteractionMode] = useState<string>(DEFAULT_INPUT_SOURCE_ID);
+  // Active scene, may be an unsaved draft while the editor is open
+  const [scene, setScene] = useState<Scene>(() => getScene(settings.sceneId) ?? getScene(DEFAULT_SCENE_ID)!);
+  const [sceneLibrary, setSceneLibrary] = useState<Scene[]>(listScenes);
+  const [editingScene, setEditingScene] = useState(false);
+  const [treeSpecies, setTreeSpecies] = useState<string>(settings.treeSpecies);
+  const [envSettings, setEnvSettings] = useState<EnvironmentSettings>(settings.environment);
+  // 'auto' lets a long sad mood bring rain
+  const [weather, setWeather] = useState<WeatherSetting>(settings.weather);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  // Stream died mid-session, reconnecting in the background
+  const [cameraLost, setCameraLost] = useState(false);
+  // Tracking status while a camera source runs, null otherwise
+  const [visionStatus, setVisionStatus] = useState<VisionData | null>(null);
+  const [environment, setEnvironment] = useState<Environment>(() => resolveEnvironment(settings.environment));
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const cameraSettingsRef = useRef<CameraSettings>(cameraSettings);
+  const unwatchCameraRef = useRef<(() => void) | null>(null);
+  const reconnectTimerRef = useRef<number>(0);
+  // Bumped by every camera open and release, see acquireCamera
+  const cameraAttemptRef = useRef(0);
+  const restoredModeRef = useRef(false);
   const isLooping = useRef(true); 
   const requestRef = useRef<number>(0);
-  
-  // Logic Refs
-  const clickMoodRef = useRef<number>(-1); 
+  const sketchHooksRef = useRef<TreeSketchHooks | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+  const growthInputRef = useRef<HTMLInputElement>(null);
+  const growthRef = useRef<GrowthProfile>(growthTracker.getProfile());
+  const environmentRef = useRef<Environment>(environment);
   
   // Tree State Ref
   const treeStateRef = useRef<TreeState>({
@@ -145,42 +240,17 @@ const App: React.FC = () => {
   const mainLoop = useCallback(() => {
     if (!isLooping.current) return;
 
-    if (interactionMode === 'forever') {
-      const time = performance.now() * 0.001; 
-      const oscillation = Math.sin(time * 0.8); 
-      const targetMood = 0.6 + (0.4 * (oscillation + 1) / 2);
-      const gentleWind = 0.15 * Math.sin(time * 0.3);
-
-      treeStateRef.current = {
-        mood: targetMood,
-        windForce: gentleWind
-      };
-
-    } else if (interactionMode === 'smile') {
-      if (videoRef.current && !videoRef.current.paused && !videoRef.current.ended && streamRef.current) {
-        const { moodScore, movementScore } = analyzeFrame(videoRef.current);
-        treeStateRef.current = {
-          mood: moodScore,
-          windForce: movementScore,
-        };
-      } else {
-        treeStateRef.current = { mood: -0.5, windForce: 0 };
-      }
-    } else {
-      const DECAY_RATE = 0.0015; 
-      if (clickMoodRef.current > -1) {
-        clickMoodRef.current -= DECAY_RATE;
-      }
-      if (clickMoodRef.current < -1) clickMoodRef.current = -1;
-
-      treeStateRef.current = {
-        mood: clickMoodRef.current,
-        windForce: 0, 
-      };
+    const source = getInputSource(interactionMode);
+    if (source) {
+      const now = performance.now();
+      treeStateRef.current = source.sample(now);
+      recorderRef.current?.recordState(now, treeStateRef.current);
+      growthTracker.update(now, source.capabilities.tendsTree ? treeStateRef.current.mood : null);
+      growthRef.current = growthTracker.getProfile();
     }
 
     requestRef.current = requestAnimationFrame(mainLoop);
-  }, [interactionMode]);
+  }, [interactionMode, growthTracker]);
 
   useEffect(() => {
     isLooping.current = true;
@@ -188,76 +258,428 @@ const App: React.FC = () => {
     return () => cancelAnimationFrame(requestRef.current);
   }, [mainLoop]);
 
+  // Persist growth on close and refresh the status line now and then
+  useEffect(() => {
+    const handleUnload = () => growthTracker.save();
+    window.addEventListener("beforeunload", handleUnload);
+    const timer = window.setInterval(() => setGrowthInfo(growthTracker.getState()), 5000);
+    return () => {
+      window.removeEventListener("beforeunload", handleUnload);
+      window.clearInterval(timer);
+      growthTracker.save();
+    };
+  }, [growthTracker]);
+
+  // Follow the local clock, re-resolved every minute for 'auto' settings
+  useEffect(() => {
+    const update = () => {
+      const next = resolveEnvironment(envSettings);
+      environmentRef.current = next;
+      setEnvironment(next);
+    };
+    update();
+    const timer = window.setInterval(update, 60000);
+    return () => window.clearInterval(timer);
+  }, [envSettings]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== DEBUG_HOTKEY || e.ctrlKey || e.metaKey || e.altKey) return;
+      // Not while typing into a form field
+      if (e.target instanceof HTMLElement && e.target.closest("input, select, textarea")) return;
+      setShowDebug(current => !current);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Re-enter the last mode. Opening a tab shouldn't switch on the camera
+  // or microphone by itself, those modes wait for a click unless the user
+  // opted in to resuming them.
+  useEffect(() => {
+    if (restoredModeRef.current) return;
+    restoredModeRef.current = true;
+    // First render's settings, before this session saved anything
+    const saved = getInputSource(settings.interactionMode);
+    if (!saved || saved.id === DEFAULT_INPUT_SOURCE_ID || !(saved.isAvailable?.() ?? true)) return;
+    const captures = saved.capabilities.needsCamera || saved.capabilities.needsMicrophone;
+    if (!captures || settings.resumeCapture) {
+      handleModeChange(saved.id);
+    }
+  }, []);
+
+  // A camera coming back (plugged in again) is the best moment to retry
+  useEffect(() => {
+    const handleDeviceChange = () => {
+      listCameras().then(setCameras).catch(() => {});
+      if (cameraLost) reconnectCamera();
+    };
+    navigator.mediaDevices?.addEventListener("devicechange", handleDeviceChange);
+    return () => navigator.mediaDevices?.removeEventListener("devicechange", handleDeviceChange);
+  }, [cameraLost]);
+
+  // Poll tracking status for the "face not detected" hint
+  useEffect(() => {
+    if (!getInputSource(interactionMode)?.capabilities.needsCamera) {
+      setVisionStatus(null);
+      return;
+    }
+    const timer = window.setInterval(() => setVisionStatus(getLastVisionData()), 500);
+    return () => window.clearInterval(timer);
+  }, [interactionMode]);
+
+  useEffect(() => subscribeSettings(setSettings), []);
+
+  useEffect(() => {
+    setInferenceRate(settings.inferenceFps);
+  }, [settings.inferenceFps]);
+
+  // Remember the choices for the next visit
+  useEffect(() => {
+    updateSettings({ flowerStyle, sceneId: scene.id, treeSpecies, interactionMode, weather, environment: envSettings });
+  }, [flowerStyle, scene.id, treeSpecies, interactionMode, weather, envSettings]);
+
+  // Selector changes are part of a recording too
+  useEffect(() => {
+    recorderRef.current?.recordFlowerStyle(performance.now(), flowerStyle);
+  }, [flowerStyle]);
+
+  // Not every drag step while editing, just the result
+  useEffect(() => {
+    if (!editingScene) recorderRef.current?.recordScene(performance.now(), scene);
+  }, [scene, editingScene]);
+
+  const attachCamera = async (stream: MediaStream) => {
+    streamRef.current = stream;
+    unwatchCameraRef.current = watchStream(stream, handleCameraLost);
+    // Nothing from the old stream should leak into the new one
+    resetVisionFilter();
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play();
+    }
+    // Device labels are only readable once access was granted
+    listCameras().then(setCameras).catch(() => {});
+  };
+
+  // Also cancels an open that is still in flight
+  const releaseCamera = () => {
+    cameraAttemptRef.current++;
+    unwatchCameraRef.current?.();
+    unwatchCameraRef.current = null;
+    if (streamRef.current) stopStream(streamRef.current);
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+  };
+
+  // Opens and attaches the camera unless another open or a release comes
+  // first; a stream arriving after that is stopped right away. Resolves
+  // false when superseded, errors of superseded opens are swallowed too.
+  const acquireCamera = async (settings: CameraSettings): Promise<boolean> => {
+    const attempt = ++cameraAttemptRef.current;
+    let stream: MediaStream;
+    try {
+      stream = await openCamera(settings);
+    } catch (err) {
+      if (attempt !== cameraAttemptRef.current) return false;
+      throw err;
+    }
+    if (attempt !== cameraAttemptRef.current) {
+      stopStream(stream);
+      return false;
+    }
+    await attachCamera(stream);
+    return true;
+  };
+
   const enableCamera = async () => {
     if (streamRef.current) return; 
 
+    const settings = cameraSettingsRef.current;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480 },
-      });
-      streamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        await videoRef.current.play();
+      try {
+        await acquireCamera(settings);
+      } catch (err) {
+        // The saved camera may be gone for good, try the default one
+        if (isPermissionError(err) || settings.deviceId === null) throw err;
+        console.warn("Saved camera unavailable, using the default one:", err);
+        await acquireCamera({ ...settings, deviceId: null });
       }
-      setPermissionError(false);
+      setPermissionError(null);
     } catch (err) {
-      console.error("Camera permission error:", err);
-      setPermissionError(true);
+      console.error("Failed to open camera:", err);
+      // Only a refusal needs the permission overlay
+      if (isPermissionError(err)) setPermissionError('camera');
       throw err; // Propagate error to handleModeChange
     }
   };
 
-  const handleModeChange = async (mode: InteractionMode) => {
-    if (mode === interactionMode) return;
+  // Stop the tracks when no source needs them, turns the camera light off
+  const disableCamera = () => {
+    window.clearTimeout(reconnectTimerRef.current);
+    releaseCamera();
+    setCameraLost(false);
+  };
 
-    if (mode === 'smile') {
-      setIsLoadingSmile(true);
-      try {
-        // 1. Lazy load models if not ready
-        if (!modelsLoaded) {
-          await initializeVision();
-          setModelsLoaded(true);
+  // Retries until the camera is back. The chosen device may be gone for
+  // good, so later attempts fall back to the default one.
+  const reconnectCamera = async (attempt = 0) => {
+    window.clearTimeout(reconnectTimerRef.current);
+    if (streamRef.current) return;
+    const settings = attempt === 0 ? cameraSettingsRef.current : { ...cameraSettingsRef.current, deviceId: null };
+    try {
+      // Superseded by a newer open or cancelled, that one takes over
+      if (!(await acquireCamera(settings))) return;
+      setCameraLost(false);
+    } catch (err) {
+      if (isPermissionError(err)) {
+        // Revoked, only the user can fix that
+        setCameraLost(false);
+        setPermissionError('camera');
+        return;
+      }
+      reconnectTimerRef.current = window.setTimeout(() => reconnectCamera(attempt + 1), CAMERA_RECONNECT_MS);
+    }
+  };
+
+  // Unplugged or permission revoked mid-session. The source keeps running
+  // on its held state while we try to get the stream back.
+  const handleCameraLost = () => {
+    console.warn("Camera stream ended, reconnecting...");
+    releaseCamera();
+    setCameraLost(true);
+    reconnectCamera();
+  };
+
+  const changeCameraSettings = (next: CameraSettings) => {
+    setCameraSettings(next);
+    cameraSettingsRef.current = next;
+    saveCameraSettings(next);
+    // Reopen a running camera with the new settings, shown as reconnecting
+    // until it is back
+    if (streamRef.current) {
+      releaseCamera();
+      setCameraLost(true);
+      reconnectCamera();
+    }
+  };
+
+  const enableMicrophone = async (): Promise<MediaStream> => {
+    if (micStreamRef.current) return micStreamRef.current;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        // Raw signal, the browser's voice processing would flatten laughter and breath
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      });
+      micStreamRef.current = stream;
+      setPermissionError(null);
+      return stream;
+    } catch (err) {
+      console.error("Microphone permission error:", err);
+      setPermissionError('microphone');
+      throw err;
+    }
+  };
+
+  // Release the mic when no source listens, so the browser's indicator goes away
+  const disableMicrophone = () => {
+    micStreamRef.current?.getTracks().forEach(track => track.stop());
+    micStreamRef.current = null;
+  };
+
+  // One-shot actions fired by input sources (e.g. hand gestures)
+  const handleTreeAction = useCallback((action: TreeAction) => {
+    const hooks = sketchHooksRef.current;
+    switch (action) {
+      case 'petalBurst':
+        hooks?.burstPetals();
+        break;
+      case 'moodBoost':
+        hooks?.boostMood(0.5);
+        break;
+      case 'calmWind':
+        hooks?.calmWind(3000);
+        break;
+      case 'nextFlowerStyle':
+        setFlowerStyle(current => {
+          const ids = listFlowerSpecies().map(species => species.id);
+          return ids[(ids.indexOf(current) + 1) % ids.length];
+        });
+        break;
+    }
+  }, []);
+
+  const handleModeChange = async (mode: string) => {
+    if (mode === interactionMode || startingSource) return;
+
+    const next = getInputSource(mode);
+    if (!next) return;
+
+    setStartingSource(mode);
+    try {
+      // 0. Audio sources analyse the stream from the start
+      const audio = next.capabilities.needsMicrophone ? await enableMicrophone() : null;
+      // 1. Let the source load whatever it needs (e.g. vision models)
+      await next.start({
+        video: videoRef.current,
+        audio,
+        dispatch: handleTreeAction,
+        setFlowerStyle,
+        setScene,
+      });
+      // 2. Request Camera
+      if (next.capabilities.needsCamera) {
+        try {
+          await enableCamera();
+        } catch (error) {
+          next.stop();
+          throw error;
         }
-        // 2. Request Camera
-        await enableCamera();
-        // Only switch mode if camera success
-        setInteractionMode('smile');
-      } catch (error) {
-        console.error("Failed to enter smile mode:", error);
-        // Do NOT set back to click immediately so error UI can be seen if needed,
-        // or effectively we just stay in current mode but permissionError is true
-        // which triggers the overlay.
-      } finally {
-        setIsLoadingSmile(false);
       }
-    } else {
+      // Only switch mode once the new source is ready
+      getInputSource(interactionMode)?.stop();
+      if (!next.capabilities.needsCamera) disableCamera();
+      if (!next.capabilities.needsMicrophone) disableMicrophone();
       setInteractionMode(mode);
+    } catch (error) {
+      console.error(`Failed to enter ${mode} mode:`, error);
+      // Stay in the current mode. If the camera or microphone was refused,
+      // permissionError is set which triggers the overlay.
+      if (!getInputSource(interactionMode)?.capabilities.needsMicrophone) disableMicrophone();
+    } finally {
+      setStartingSource(null);
     }
   };
 
-  const handleScreenClick = () => {
-    if (interactionMode === 'click') {
-      const BOOST = 0.7;
-      clickMoodRef.current = Math.min(clickMoodRef.current + BOOST, 1.0);
+  const toggleRecording = () => {
+    if (recorderRef.current) {
+      const session = recorderRef.current.finish();
+      recorderRef.current = null;
+      setIsRecording(false);
+      const blob = new Blob([serializeSession(session)], { type: "application/x-ndjson" });
+      downloadBlob(blob, `smile-tree-session_${timestampForFilename()}.ndjson`);
+    } else {
+      recorderRef.current = createSessionRecorder(flowerStyle, scene, performance.now());
+      setIsRecording(true);
+    }
+  };
+
+  const handleSessionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      const session = parseSession(await file.text());
+      playbackSource.load(session);
+      setLoadedSession(session);
+      handleModeChange(playbackSource.id);
+    } catch (error) {
+      console.error("Failed to import session:", error);
+      alert("无法读取录制文件");
     }
   };
 
+  // Renders the start of the imported session offscreen twice, both runs have
+  // to come out pixel for pixel the same
+  const checkReplay = async () => {
+    if (!loadedSession || checkingReplay) return;
+    const events = loadedSession.events;
+    const duration = events.length > 0 ? events[events.length - 1].t : 0;
+    const frames = Math.min(Math.ceil((duration / 1000) * REPLAY_CHECK_FPS) + 1, REPLAY_CHECK_MAX_FRAMES);
+    setCheckingReplay(true);
+    try {
+      const unstable = await findUnstableFrame({
+        timeline: sessionTimeline(loadedSession),
+        frames,
+        fps: REPLAY_CHECK_FPS,
+      });
+      alert(unstable === null ? `回放可复现（${frames} 帧一致）` : `回放不可复现：第 ${unstable + 1} 帧不一致`);
+    } catch (error) {
+      console.error("Replay check failed:", error);
+      alert("复现检查失败");
+    } finally {
+      setCheckingReplay(false);
+    }
+  };
+
+  const exportGrowth = () => {
+    growthTracker.save();
+    const blob = new Blob([JSON.stringify(growthTracker.getState(), null, 2)], { type: "application/json" });
+    downloadBlob(blob, `smile-tree-growth_${timestampForFilename()}.json`);
+  };
+
+  const resetGrowth = () => {
+    if (!confirm("确定要重置小树的成长记录吗？")) return;
+    growthTracker.reset();
+    growthRef.current = growthTracker.getProfile();
+    setGrowthInfo(growthTracker.getState());
+  };
+
+  const handleGrowthFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      growthTracker.restore(parseGrowthState(await file.text()));
+      growthRef.current = growthTracker.getProfile();
+      setGrowthInfo(growthTracker.getState());
+    } catch (error) {
+      console.error("Failed to import growth:", error);
+      alert("无法读取成长记录");
+    }
+  };
+
+  const tuning: SketchTuning = {
+    frameRate: settings.frameRate,
+    maxParticles: settings.maxParticles,
+    particleRate: settings.particleRate,
+    windStrength: settings.windStrength,
+    quality: settings.quality,
+  };
+
+  // Saved, imported or deleted in the editor
+  const handleSceneLibraryChange = (active: Scene | null) => {
+    setSceneLibrary(listScenes());
+    setScene(active ?? getScene(DEFAULT_SCENE_ID)!);
+  };
+
+  // Edits to a preset only live on as a saved copy, closing drops them
+  const closeSceneEditor = () => {
+    setEditingScene(false);
+    if (isPresetScene(scene.id)) setScene(getScene(scene.id)!);
+  };
+
+  const handleScreenClick = () => {
+    getInputSource(interactionMode)?.handleClick?.();
+  };
+
   return (
     <div 
-      className="relative w-full h-screen overflow-hidden text-white font-['SimHei','Heiti_SC',sans-serif] bg-gradient-to-b from-[#111425] via-[#2a2d55] to-[#d8a895]"
+      className="relative w-full h-screen overflow-hidden text-white font-['SimHei','Heiti_SC',sans-serif] transition-[background] duration-1000"
+      style={{ background: cssGradient(environment.sky) }}
       onClick={handleScreenClick} 
     >
       {!permissionError && (
         <SketchContainer 
           treeStateRef={treeStateRef} 
           flowerStyle={flowerStyle}
-          sceneMode={sceneMode}
+          scene={scene}
+          treeSpecies={treeSpecies}
+          weather={weather}
+          tuning={tuning}
+          growthRef={growthRef}
+          environmentRef={environmentRef}
+          hooksRef={sketchHooksRef}
         />
       )}
 
       <div className="absolute inset-0 pointer-events-none z-10 flex flex-col justify-between p-6">
-        <div className="flex justify-between items-start pointer-events-auto">
+        {/* Only the controls themselves take the pointer, the rest of the
+            header lets taps and drags through to the tree */}
+        <div className="flex justify-between items-start">
           <div className="flex flex-col gap-4">
             <div>
               <h1 className="text-3xl font-bold tracking-wider text-pink-200 opacity-90 drop-shadow-lg">
@@ -266,83 +688,262 @@ const App: React.FC = () => {
             </div>
 
             {/* Row 1: Flower Style Selector */}
-            <div className="flex gap-4 mt-2">
+            <div className="flex gap-4 mt-2 w-fit pointer-events-auto">
+              {listFlowerSpecies().map(species => (
+                <button
+                  key={species.id}
+                  onClick={(e) => { e.stopPropagation(); setFlowerStyle(species.id); }}
+                  className="outline-none focus:scale-110 transition-transform"
+                >
+                  <FlowerIcon style={species.id} isSelected={flowerStyle === species.id} />
+                </button>
+              ))}
+            </div>
+
+            {/* Row 2: Scene Selector, presets as icons, saved scenes by name */}
+            <div className="flex flex-wrap items-center gap-4 mt-1 border-t border-white/10 pt-4 w-fit pointer-events-auto">
+              {sceneLibrary.map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={(e) => { e.stopPropagation(); setScene(entry); }}
+                  title={entry.name}
+                  className={isPresetScene(entry.id)
+                    ? "outline-none focus:scale-110 transition-transform"
+                    : `text-xs transition-colors ${scene.id === entry.id ? "text-green-400" : "text-white/40 hover:text-white/80"}`}
+                >
+                  {isPresetScene(entry.id)
+                    ? <TreeCountIcon count={PRESET_ICONS[entry.id]} isSelected={scene.id === entry.id} />
+                    : entry.name}
+                </button>
+              ))}
               <button
-                onClick={(e) => { e.stopPropagation(); setFlowerStyle('peach'); }}
-                className="outline-none focus:scale-110 transition-transform"
+                onClick={(e) => { e.stopPropagation(); setEditingScene(true); setShowSettings(false); }}
+                className="text-xs text-white/40 hover:text-white/80 transition-colors"
               >
-                <FlowerIcon style="peach" isSelected={flowerStyle === 'peach'} />
+                编辑场景
               </button>
+            </div>
+
+            {/* Row 3: Tree Species Selector */}
+            <div className="flex flex-wrap gap-x-4 gap-y-2 text-xs w-fit pointer-events-auto">
+              {listTreeSpecies().map(species => (
+                <button
+                  key={species.id}
+                  onClick={(e) => { e.stopPropagation(); setTreeSpecies(species.id); }}
+                  className={`transition-colors ${treeSpecies === species.id ? "text-green-400" : "text-white/40 hover:text-white/80"}`}
+                >
+                  {species.name}
+                </button>
+              ))}
+            </div>
+
+            {/* Row 4: Season / Time of Day / Weather */}
+            <div className="flex gap-4 text-xs w-fit pointer-events-auto" onClick={(e) => e.stopPropagation()}>
+              <select
+                value={envSettings.season}
+                onChange={(e) => setEnvSettings({ ...envSettings, season: e.target.value as Season | 'auto' })}
+                className="bg-transparent text-white/60 outline-none"
+              >
+                <option value="auto" className="bg-[#111425]">季节: 自动</option>
+                {(Object.keys(SEASON_NAMES) as Season[]).map(season => (
+                  <option key={season} value={season} className="bg-[#111425]">季节: {SEASON_NAMES[season]}</option>
+                ))}
+              </select>
+              <select
+                value={envSettings.timeOfDay}
+                onChange={(e) => setEnvSettings({ ...envSettings, timeOfDay: e.target.value as TimeOfDay | 'auto' })}
+                className="bg-transparent text-white/60 outline-none"
+              >
+                <option value="auto" className="bg-[#111425]">时段: 自动</option>
+                {(Object.keys(TIME_OF_DAY_NAMES) as TimeOfDay[]).map(time => (
+                  <option key={time} value={time} className="bg-[#111425]">时段: {TIME_OF_DAY_NAMES[time]}</option>
+                ))}
+              </select>
+              <select
+                value={weather}
+                onChange={(e) => setWeather(e.target.value as WeatherSetting)}
+                className="bg-transparent text-white/60 outline-none"
+              >
+                {(Object.keys(WEATHER_NAMES) as WeatherSetting[]).map(kind => (
+                  <option key={kind} value={kind} className="bg-[#111425]">天气: {WEATHER_NAMES[kind]}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Interaction Mode Switchers */}
+            <div className="flex flex-col gap-4 mt-6 w-fit pointer-events-auto">
+              {listInputSources().map(source => (
+                <React.Fragment key={source.id}>
+                  <ModeToggle 
+                    isActive={interactionMode === source.id}
+                    onClick={(e) => { e.stopPropagation(); handleModeChange(source.id); }}
+                    iconPath={source.iconPath}
+                    label={startingSource === source.id ? "启动中..." : source.label}
+                    disabled={startingSource !== null}
+                  />
+                </React.Fragment>
+              ))}
+              {(interactionMode === 'smile' || interactionMode === 'group') && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); setShowCalibration(true); }}
+                  className="self-start ml-9 text-xs text-white/40 hover:text-white/80 transition-colors"
+                >
+                  校准微笑
+                </button>
+              )}
+              {visionStatus && (
+                <div className="flex gap-3 ml-9 text-xs" onClick={(e) => e.stopPropagation()}>
+                  <select
+                    value={cameraSettings.deviceId ?? ""}
+                    onChange={(e) => changeCameraSettings({ ...cameraSettings, deviceId: e.target.value || null })}
+                    className="bg-transparent text-white/60 outline-none max-w-[10rem]"
+                  >
+                    <option value="" className="bg-[#111425]">默认摄像头</option>
+                    {cameras.map(camera => (
+                      <option key={camera.deviceId} value={camera.deviceId} className="bg-[#111425]">{camera.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={cameraSettings.resolution}
+                    onChange={(e) => changeCameraSettings({ ...cameraSettings, resolution: e.target.value as CameraResolution })}
+                    className="bg-transparent text-white/60 outline-none"
+                  >
+                    {(Object.keys(RESOLUTIONS) as CameraResolution[]).map(resolution => (
+                      <option key={resolution} value={resolution} className="bg-[#111425]">{resolution}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={cameraSettings.frameRate}
+                    onChange={(e) => changeCameraSettings({ ...cameraSettings, frameRate: Number(e.target.value) })}
+                    className="bg-transparent text-white/60 outline-none"
+                  >
+                    {FRAME_RATES.map(fps => (
+                      <option key={fps} value={fps} className="bg-[#111425]">{fps} fps</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {cameraLost && (
+                <span className="ml-9 text-xs text-yellow-300/80 animate-pulse">
+                  摄像头已断开，正在重新连接...
+                </span>
+              )}
+              {visionStatus && !cameraLost && (
+                <span className="ml-9 text-xs text-white/40">
+                  {visionStatus.facePresent ? "已检测到人脸" : "未检测到人脸"}
+                  {visionStatus.timestamp > 0 && ` · 延迟 ${Math.round(visionStatus.latencyMs)} ms`}
+                </span>
+              )}
+            </div>
+
+            {/* Session Recording / Playback */}
+            <div className="flex gap-4 mt-2 text-xs w-fit pointer-events-auto">
               <button
-                onClick={(e) => { e.stopPropagation(); setFlowerStyle('sakura'); }}
-                className="outline-none focus:scale-110 transition-transform"
+                onClick={(e) => { e.stopPropagation(); toggleRecording(); }}
+                className={`transition-colors ${isRecording ? "text-red-400 animate-pulse" : "text-white/40 hover:text-white/80"}`}
               >
-                <FlowerIcon style="sakura" isSelected={flowerStyle === 'sakura'} />
+                {isRecording ? "● 停止录制" : "录制"}
               </button>
               <button
-                onClick={(e) => { e.stopPropagation(); setFlowerStyle('delonix'); }}
-                className="outline-none focus:scale-110 transition-transform"
+                onClick={(e) => { e.stopPropagation(); sessionInputRef.current?.click(); }}
+                className="text-white/40 hover:text-white/80 transition-colors"
               >
-                <FlowerIcon style="delonix" isSelected={flowerStyle === 'delonix'} />
+                导入回放
               </button>
+              {loadedSession && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); checkReplay(); }}
+                  disabled={checkingReplay}
+                  className="text-white/40 hover:text-white/80 transition-colors disabled:opacity-30"
+                >
+                  {checkingReplay ? "检查中..." : "复现检查"}
+                </button>
+              )}
+              <input
+                ref={sessionInputRef}
+                type="file"
+                accept=".ndjson,.json,application/json"
+                className="hidden"
+                onClick={(e) => e.stopPropagation()}
+                onChange={handleSessionFile}
+              />
             </div>
 
-            {/* Row 2: Tree Count/Scene Selector */}
-            <div className="flex gap-4 mt-1 border-t border-white/10 pt-4">
+            {/* Long-term Growth */}
+            <div className="flex gap-4 text-xs text-white/40 w-fit pointer-events-auto">
+              <span>
+                活力 {Math.round(growthInfo.vitality * 100)}% · 微笑 {Math.floor(growthInfo.totalSmileSeconds / 60)} 分钟
+              </span>
               <button
-                onClick={(e) => { e.stopPropagation(); setSceneMode(1); }}
-                className="outline-none focus:scale-110 transition-transform"
+                onClick={(e) => { e.stopPropagation(); exportGrowth(); }}
+                className="hover:text-white/80 transition-colors"
               >
-                <TreeCountIcon count={1} isSelected={sceneMode === 1} />
+                导出
               </button>
               <button
-                onClick={(e) => { e.stopPropagation(); setSceneMode(2); }}
-                className="outline-none focus:scale-110 transition-transform"
+                onClick={(e) => { e.stopPropagation(); growthInputRef.current?.click(); }}
+                className="hover:text-white/80 transition-colors"
               >
-                <TreeCountIcon count={2} isSelected={sceneMode === 2} />
+                导入
               </button>
               <button
-                onClick={(e) => { e.stopPropagation(); setSceneMode(3); }}
-                className="outline-none focus:scale-110 transition-transform"
+                onClick={(e) => { e.stopPropagation(); resetGrowth(); }}
+                className="hover:text-white/80 transition-colors"
               >
-                <TreeCountIcon count={3} isSelected={sceneMode === 3} />
+                重置
               </button>
-            </div>
-
-            {/* Interaction Mode Switchers */}
-            <div className="flex flex-col gap-4 mt-6">
-              <ModeToggle 
-                isActive={interactionMode === 'click'}
-                onClick={(e) => { e.stopPropagation(); handleModeChange('click'); }}
-                iconPath="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122"
-                label="点击花开"
-              />
-              <ModeToggle 
-                isActive={interactionMode === 'smile'}
-                onClick={(e) => { e.stopPropagation(); handleModeChange('smile'); }}
-                iconPath="M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-                label={isLoadingSmile ? "启动中..." : "微笑花开"}
-                disabled={isLoadingSmile}
-              />
-               <ModeToggle 
-                isActive={interactionMode === 'forever'}
-                onClick={(e) => { e.stopPropagation(); handleModeChange('forever'); }}
-                iconPath="M12 3v2.25m6.364.386l-1.591 1.591M21 12h-2.25m-.386 6.364l-1.591-1.591M12 18.75V21m-4.773-4.227l-1.591 1.591M5.25 12H3m4.227-4.773L5.636 5.636M15.75 12a3.75 3.75 0 11-7.5 0 3.75 3.75 0 017.5 0z"
-                label="永远花开"
+              <input
+                ref={growthInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onClick={(e) => e.stopPropagation()}
+                onChange={handleGrowthFile}
               />
             </div>
+
+            {/* Canvas Export */}
+            <CaptureControls hooksRef={sketchHooksRef} background={environment.sky} />
           </div>
+
+          <button
+            onClick={(e) => { e.stopPropagation(); setShowSettings(current => !current); }}
+            className="text-xs text-white/40 hover:text-white/80 transition-colors pointer-events-auto"
+          >
+            设置
+          </button>
         </div>
 
+        {showCalibration && (interactionMode === 'smile' || interactionMode === 'group') && (
+          <CalibrationOverlay onClose={() => setShowCalibration(false)} />
+        )}
+
+        {editingScene && (
+          <SceneEditor
+            scene={scene}
+            onChange={setScene}
+            onLibraryChange={handleSceneLibraryChange}
+            onClose={closeSceneEditor}
+          />
+        )}
+
+        {showSettings && !editingScene && (
+          <SettingsPanel settings={settings} onClose={() => setShowSettings(false)} />
+        )}
+
+        {showDebug && (
+          <DebugOverlay videoRef={videoRef} treeStateRef={treeStateRef} onClose={() => setShowDebug(false)} />
+        )}
+
         {permissionError && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/90 z-50 pointer-events-auto">
             <div className="text-center max-w-lg p-6 border border-red-500/50 bg-red-900/20 rounded-xl">
-              <h2 className="text-xl text-red-400 mb-2">需要摄像头权限</h2>
+              <h2 className="text-xl text-red-400 mb-2">{PERMISSION_TEXT[permissionError].title}</h2>
               <p className="text-gray-300 mb-4 text-sm">
-                微笑开花模式需要使用摄像头来识别您的表情。请在浏览器设置中允许摄像头访问。
+                {PERMISSION_TEXT[permissionError].body}
               </p>
               <button 
-                onClick={(e) => { e.stopPropagation(); setInteractionMode('click'); setPermissionError(false); }}
+                onClick={(e) => { e.stopPropagation(); handleModeChange(DEFAULT_INPUT_SOURCE_ID); setPermissionError(null); }}
                 className="px-6 py-2 bg-white/10 hover:bg-white/20 text-white border border-white/20 rounded-lg transition-colors text-sm"
               >
                 返回点击模式
@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from "react";
+import { getLastMouthScores, setMoodCurve } from "../services/visionService";
+import {
+  CalibrationSamples,
+  CalibrationStep,
+  DEFAULT_MOOD_CURVE,
+  deriveMoodCurve,
+  resetMoodCurve,
+  saveMoodCurve,
+} from "../services/moodCalibration";
+import { MouthScores } from "../types";
+
+interface CalibrationOverlayProps {
+  onClose: () => void;
+}
+
+const STEPS: CalibrationStep[] = ['neutral', 'smile', 'frown'];
+
+const STEP_TEXT: Record<CalibrationStep, { title: string; hint: string }> = {
+  neutral: { title: "自然表情", hint: "请放松面部，保持平常的表情。" },
+  smile: { title: "尽情微笑", hint: "请露出您最灿烂的笑容。" },
+  frown: { title: "皱眉撇嘴", hint: "请做出难过的表情，嘴角向下。" },
+};
+
+// How long each expression is recorded
+const RECORD_MS = 2500;
+
+type Phase = 'intro' | 'recording' | 'done';
+
+const CalibrationOverlay: React.FC<CalibrationOverlayProps> = ({ onClose }) => {
+  const [phase, setPhase] = useState<Phase>('intro');
+  const [stepIndex, setStepIndex] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [faceMissing, setFaceMissing] = useState(false);
+  const samplesRef = useRef<CalibrationSamples>({ neutral: [], smile: [], frown: [] });
+
+  // Record blendshapes while a step is active. The smile or group input
+  // source keeps analyzing frames, we only read the latest raw scores (of the
+  // first face, in a group the curve then applies to everyone).
+  useEffect(() => {
+    if (phase !== 'recording') return;
+
+    const step = STEPS[stepIndex];
+    const bucket: MouthScores[] = [];
+    const startTime = performance.now();
+    let frame = 0;
+
+    const tick = () => {
+      const scores = getLastMouthScores();
+      setFaceMissing(scores === null);
+      if (scores) bucket.push(scores);
+
+      const elapsed = performance.now() - startTime;
+      setProgress(Math.min(elapsed / RECORD_MS, 1));
+
+      if (elapsed < RECORD_MS) {
+        frame = requestAnimationFrame(tick);
+        return;
+      }
+
+      if (bucket.length === 0) {
+        // Nobody in front of the camera, record this step again
+        setFaceMissing(true);
+        setPhase('intro');
+        return;
+      }
+
+      samplesRef.current[step] = bucket;
+      if (stepIndex < STEPS.length - 1) {
+        setStepIndex(stepIndex + 1);
+        setProgress(0);
+      } else {
+        const curve = deriveMoodCurve(samplesRef.current);
+        setMoodCurve(curve);
+        saveMoodCurve(curve);
+        setPhase('done');
+      }
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [phase, stepIndex]);
+
+  const handleReset = () => {
+    resetMoodCurve();
+    setMoodCurve(DEFAULT_MOOD_CURVE);
+    onClose();
+  };
+
+  const step = STEPS[stepIndex];
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center bg-black/70 z-50 pointer-events-auto"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="text-center w-full max-w-md p-6 border border-pink-300/40 bg-[#111425]/80 rounded-xl">
+        <h2 className="text-xl text-pink-200 mb-2">微笑校准</h2>
+
+        {phase === 'intro' && (
+          <>
+            <p className="text-gray-300 mb-4 text-sm">
+              第 {stepIndex + 1}/{STEPS.length} 步：{STEP_TEXT[step].title}。{STEP_TEXT[step].hint}
+            </p>
+            {faceMissing && (
+              <p className="text-red-300 mb-4 text-xs">未检测到人脸，请正对摄像头后重试。</p>
+            )}
+            <button
+              onClick={() => { setProgress(0); setPhase('recording'); }}
+              className="px-6 py-2 bg-white/10 hover:bg-white/20 text-white border border-white/20 rounded-lg transition-colors text-sm"
+            >
+              开始记录
+            </button>
+          </>
+        )}
+
+        {phase === 'recording' && (
+          <>
+            <p className="text-gray-300 mb-4 text-sm">
+              {STEP_TEXT[step].title}：{STEP_TEXT[step].hint}
+            </p>
+            <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-pink-400 transition-[width] duration-100" style={{ width: `${progress * 100}%` }} />
+            </div>
+          </>
+        )}
+
+        {phase === 'done' && (
+          <p className="text-gray-300 mb-4 text-sm">校准完成，您的表情灵敏度已保存。</p>
+        )}
+
+        <div className="flex justify-center gap-3 mt-6">
+          <button
+            onClick={handleReset}
+            className="px-4 py-2 text-white/60 hover:text-white text-xs transition-colors"
+          >
+            恢复默认
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white border border-white/20 rounded-lg transition-colors text-xs"
+          >
+            {phase === 'done' ? "完成" : "取消"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationOverlay;
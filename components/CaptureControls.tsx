@@ -0,0 +1,67 @@
+import React, { useState } from "react";
+import { TreeSketchHooks } from "../services/treeSketch";
+import { exportFrameSequence, recordCanvasVideo } from "../services/canvasCapture";
+import { downloadBlob, timestampForFilename } from "../services/fileExport";
+
+interface CaptureControlsProps {
+  hooksRef: React.MutableRefObject<TreeSketchHooks | null>;
+  background?: string[]; // Sky gradient to bake behind the transparent canvas
+}
+
+const DURATIONS = [3, 5, 10]; // seconds
+
+type CaptureKind = 'video' | 'frames';
+
+const CaptureControls: React.FC<CaptureControlsProps> = ({ hooksRef, background }) => {
+  const [duration, setDuration] = useState(5);
+  const [busy, setBusy] = useState<CaptureKind | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const capture = async (kind: CaptureKind) => {
+    const hooks = hooksRef.current;
+    const canvas = hooks?.getCanvas();
+    if (!hooks || !canvas || busy) return;
+
+    setBusy(kind);
+    setProgress(0);
+    try {
+      if (kind === 'video') {
+        const blob = await recordCanvasVideo(canvas, duration * 1000, background);
+        downloadBlob(blob, `smile-tree_${timestampForFilename()}.webm`);
+      } else {
+        const blob = await exportFrameSequence(hooks, duration * 1000, background, setProgress);
+        downloadBlob(blob, `smile-tree-frames_${timestampForFilename()}.zip`);
+      }
+    } catch (error) {
+      console.error(`Failed to export ${kind}:`, error);
+      alert("导出失败");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const linkClass = "text-white/40 hover:text-white/80 transition-colors disabled:cursor-not-allowed disabled:opacity-30";
+
+  return (
+    <div className="flex gap-4 items-center text-xs w-fit pointer-events-auto" onClick={(e) => e.stopPropagation()}>
+      <select
+        value={duration}
+        onChange={(e) => setDuration(Number(e.target.value))}
+        disabled={busy !== null}
+        className="bg-transparent text-white/60 outline-none"
+      >
+        {DURATIONS.map(d => (
+          <option key={d} value={d} className="bg-[#111425]">{d} 秒</option>
+        ))}
+      </select>
+      <button onClick={() => capture('video')} disabled={busy !== null} className={linkClass}>
+        {busy === 'video' ? "录制视频中..." : "导出视频"}
+      </button>
+      <button onClick={() => capture('frames')} disabled={busy !== null} className={linkClass}>
+        {busy === 'frames' ? `渲染中 ${Math.round(progress * 100)}%` : "导出帧序列"}
+      </button>
+    </div>
+  );
+};
+
+export default CaptureControls;
@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from "react";
+import { getLastVisionData, getVisionDebugInfo, setVisionDebug } from "../services/visionService";
+import { TreeState } from "../types";
+
+interface DebugOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  treeStateRef: React.MutableRefObject<TreeState>;
+  onClose: () => void;
+}
+
+const PREVIEW_WIDTH = 320;
+const PREVIEW_HEIGHT = 240;
+// Text and bars don't need to refresh every frame
+const STATS_INTERVAL_MS = 250;
+
+interface Stats {
+  smile: number;
+  frown: number;
+  mood: number;
+  wind: number;
+  inferenceFps: number;
+  latencyMs: number;
+  facePresent: boolean;
+  handPresent: boolean;
+}
+
+// MediaPipe's drawing helpers, loaded only once the overlay is opened
+type DrawingModule = typeof import("@mediapipe/tasks-vision");
+
+const Bar: React.FC<{ label: string; value: number; signed?: boolean; color: string }> = ({ label, value, signed = false, color }) => {
+  // Signed values grow from the middle
+  const width = signed ? Math.abs(value) * 50 : value * 100;
+  const left = signed ? (value < 0 ? 50 - width : 50) : 0;
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-12 text-white/60">{label}</span>
+      <div className="relative flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+        <div className={`absolute h-full ${color}`} style={{ left: `${left}%`, width: `${Math.min(width, 100)}%` }} />
+      </div>
+      <span className="w-10 text-right tabular-nums">{value.toFixed(2)}</span>
+    </div>
+  );
+};
+
+// Diagnostics: what the vision model sees and what the tree gets out of it.
+// The preview is drawn locally from the hidden <video>, nothing is stored or sent.
+const DebugOverlay: React.FC<DebugOverlayProps> = ({ videoRef, treeStateRef, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [stats, setStats] = useState<Stats | null>(null);
+
+  // Landmarks are only sent from the worker while the overlay is open
+  useEffect(() => {
+    setVisionDebug(true);
+    return () => setVisionDebug(false);
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    let lastStats = 0;
+    let drawing: DrawingModule | null = null;
+    // Made once, as soon as both the module and the canvas context exist
+    let utils: InstanceType<DrawingModule["DrawingUtils"]> | null = null;
+    let cancelled = false;
+
+    import("@mediapipe/tasks-vision")
+      .then(module => { if (!cancelled) drawing = module; })
+      .catch(error => console.warn("Failed to load drawing utils:", error));
+
+    const tick = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      const video = videoRef.current;
+      const info = getVisionDebugInfo();
+
+      if (canvas && ctx) {
+        ctx.save();
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        // Mirrored like a selfie, landmarks share the same transform
+        ctx.translate(canvas.width, 0);
+        ctx.scale(-1, 1);
+        if (video && video.videoWidth > 0) {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        }
+        if (drawing && !utils) utils = new drawing.DrawingUtils(ctx);
+        if (drawing && utils && info.landmarks) {
+          const { FaceLandmarker, GestureRecognizer } = drawing;
+          for (const face of info.landmarks.faces) {
+            utils.drawConnectors(face, FaceLandmarker.FACE_LANDMARKS_TESSELATION, { color: "#f9a8d480", lineWidth: 0.5 });
+          }
+          for (const hand of info.landmarks.hands) {
+            utils.drawConnectors(hand, GestureRecognizer.HAND_CONNECTIONS, { color: "#86efac", lineWidth: 2 });
+            utils.drawLandmarks(hand, { color: "#22c55e", radius: 2 });
+          }
+        }
+        ctx.restore();
+      }
+
+      const now = performance.now();
+      if (now - lastStats > STATS_INTERVAL_MS) {
+        lastStats = now;
+        const vision = getLastVisionData();
+        setStats({
+          smile: info.mouth?.smile ?? 0,
+          frown: info.mouth?.frown ?? 0,
+          mood: treeStateRef.current.mood,
+          wind: treeStateRef.current.windForce,
+          inferenceFps: info.inferenceFps,
+          latencyMs: vision.latencyMs,
+          facePresent: vision.facePresent,
+          handPresent: vision.handPresent,
+        });
+      }
+
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  return (
+    <div
+      className="absolute bottom-6 right-6 z-40 w-[340px] p-2 bg-black/70 border border-white/20 rounded-lg text-[11px] text-white/80 pointer-events-auto"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-pink-200">诊断面板（仅本地显示）</span>
+        <button onClick={onClose} className="text-white/40 hover:text-white/80 transition-colors">关闭</button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={PREVIEW_WIDTH}
+        height={PREVIEW_HEIGHT}
+        className="w-full bg-black/50 rounded"
+      />
+      {stats && (
+        <div className="flex flex-col gap-1 mt-2">
+          <Bar label="微笑" value={stats.smile} color="bg-pink-400" />
+          <Bar label="皱眉" value={stats.frown} color="bg-blue-400" />
+          <Bar label="心情" value={stats.mood} signed color="bg-yellow-300" />
+          <Bar label="风" value={stats.wind} signed color="bg-green-400" />
+          <div className="flex justify-between text-white/50 mt-1">
+            <span>人脸 {stats.facePresent ? "✓" : "✗"} · 手 {stats.handPresent ? "✓" : "✗"}</span>
+            <span className="tabular-nums">推理 {stats.inferenceFps.toFixed(1)} fps · 延迟 {Math.round(stats.latencyMs)} ms</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DebugOverlay;
@@ -0,0 +1,256 @@
+import React, { useRef, useState } from "react";
+import {
+  deleteScene,
+  isPresetScene,
+  MAX_SCENE_TREES,
+  parseScene,
+  randomSeed,
+  saveScene,
+  serializeScene,
+} from "../services/scene";
+import { listTreeSpecies } from "../services/treeSpecies";
+import { listFlowerSpecies } from "../services/flowerSpecies";
+import { downloadBlob, timestampForFilename } from "../services/fileExport";
+import { Scene, SceneTree } from "../types";
+
+interface SceneEditorProps {
+  scene: Scene;
+  // Every edit, the sketch follows along live
+  onChange: (scene: Scene) => void;
+  // After saving / importing / deleting, the library changed
+  onLibraryChange: (active: Scene | null) => void;
+  onClose: () => void;
+}
+
+const MIN_SCALE = 0.15;
+const MAX_SCALE = 1.2;
+// Trunks too high up would float in the sky
+const MIN_Y = 0.3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const selectClass = "flex-1 bg-[#111425] border border-white/20 rounded px-2 py-1 text-white/80 outline-none";
+const buttonClass = "text-white/50 hover:text-white/90 transition-colors disabled:opacity-30 disabled:cursor-not-allowed";
+
+// Scene composer: drag the handle at a trunk's base to move the tree, scroll
+// over it to resize, everything else is in the side panel.
+const SceneEditor: React.FC<SceneEditorProps> = ({ scene, onChange, onLibraryChange, onClose }) => {
+  const [selected, setSelected] = useState(0);
+  const layerRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<number | null>(null);
+
+  const tree: SceneTree | undefined = scene.trees[selected];
+
+  const updateTree = (index: number, changes: Partial<SceneTree>) => {
+    onChange({
+      ...scene,
+      trees: scene.trees.map((existing, i) => (i === index ? { ...existing, ...changes } : existing)),
+    });
+  };
+
+  const addTree = () => {
+    if (scene.trees.length >= MAX_SCENE_TREES) return;
+    onChange({ ...scene, trees: [...scene.trees, { x: 0.5, y: 1, scale: 0.6, seed: randomSeed() }] });
+    setSelected(scene.trees.length);
+  };
+
+  const removeTree = () => {
+    if (scene.trees.length <= 1) return;
+    onChange({ ...scene, trees: scene.trees.filter((_, i) => i !== selected) });
+    setSelected(Math.max(0, selected - 1));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, index: number) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = index;
+    setSelected(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const rect = layerRef.current?.getBoundingClientRect();
+    if (dragRef.current === null || !rect) return;
+    updateTree(dragRef.current, {
+      x: Math.round(clamp((e.clientX - rect.left) / rect.width, 0, 1) * 1000) / 1000,
+      y: Math.round(clamp((e.clientY - rect.top) / rect.height, MIN_Y, 1) * 1000) / 1000,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent, index: number) => {
+    const current = scene.trees[index];
+    const scale = clamp(current.scale - Math.sign(e.deltaY) * 0.05, MIN_SCALE, MAX_SCALE);
+    updateTree(index, { scale: Math.round(scale * 100) / 100 });
+  };
+
+  const save = () => {
+    onLibraryChange(saveScene(scene));
+  };
+
+  const exportScene = () => {
+    const blob = new Blob([serializeScene(scene)], { type: "application/json" });
+    downloadBlob(blob, `smile-tree-scene_${timestampForFilename()}.json`);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      const imported = saveScene(parseScene(await file.text()));
+      setSelected(0);
+      onLibraryChange(imported);
+    } catch (error) {
+      console.error("Failed to import scene:", error);
+      alert("无法读取场景文件");
+    }
+  };
+
+  const removeScene = () => {
+    if (!confirm(`确定要删除场景「${scene.name}」吗？`)) return;
+    deleteScene(scene.id);
+    onLibraryChange(null);
+  };
+
+  return (
+    <>
+      {/* Handles over the canvas, only they take pointer input */}
+      <div ref={layerRef} className="absolute inset-0 z-30 pointer-events-none">
+        {scene.trees.map((t, i) => (
+          <div
+            key={i}
+            onPointerDown={(e) => handlePointerDown(e, i)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onWheel={(e) => handleWheel(e, i)}
+            onClick={(e) => e.stopPropagation()}
+            title="拖动移动，滚轮缩放"
+            className={`absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full border-2 cursor-move touch-none pointer-events-auto transition-colors ${
+              i === selected ? "border-green-400 bg-green-400/40" : "border-white/60 bg-white/20 hover:bg-white/40"
+            }`}
+            style={{ left: `${t.x * 100}%`, top: `${Math.min(t.y * 100, 97)}%` }}
+          />
+        ))}
+      </div>
+
+      <div
+        className="absolute top-6 right-6 z-40 w-72 p-4 bg-[#111425]/90 border border-white/20 rounded-xl text-xs text-white/80 pointer-events-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-3">
+          <span className="text-green-300 text-sm">编辑场景</span>
+          <button onClick={onClose} className={buttonClass}>完成</button>
+        </div>
+        {isPresetScene(scene.id) && (
+          <p className="mb-3 text-white/40">预设场景的修改需「另存为新场景」，否则关闭后还原。</p>
+        )}
+
+        <label className="flex items-center gap-2 mb-3">
+          <span className="w-12 shrink-0">名称</span>
+          <input
+            value={scene.name}
+            onChange={(e) => onChange({ ...scene, name: e.target.value })}
+            className="flex-1 bg-transparent border border-white/20 rounded px-2 py-1 outline-none"
+          />
+        </label>
+
+        <div className="flex justify-between items-center mb-2 text-white/40">
+          <span>{scene.trees.length} 棵树</span>
+          <button onClick={addTree} disabled={scene.trees.length >= MAX_SCENE_TREES} className={buttonClass}>
+            + 添加树
+          </button>
+        </div>
+
+        {tree && (
+          <div className="flex flex-col gap-2 mb-4 p-2 border border-white/10 rounded">
+            <div className="text-white/40">第 {selected + 1} 棵</div>
+            <label className="flex items-center gap-2">
+              <span className="w-12 shrink-0">大小</span>
+              <input
+                type="range"
+                min={MIN_SCALE}
+                max={MAX_SCALE}
+                step={0.01}
+                value={tree.scale}
+                onChange={(e) => updateTree(selected, { scale: Number(e.target.value) })}
+                className="flex-1 accent-green-400"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-12 shrink-0">远近</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={tree.depth ?? 0}
+                onChange={(e) => updateTree(selected, { depth: Number(e.target.value) })}
+                className="flex-1 accent-green-400"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-12 shrink-0">树种</span>
+              <select
+                value={tree.species ?? ""}
+                onChange={(e) => updateTree(selected, { species: e.target.value || undefined })}
+                className={selectClass}
+              >
+                <option value="">跟随选择</option>
+                {listTreeSpecies().map(species => (
+                  <option key={species.id} value={species.id}>{species.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-12 shrink-0">花朵</span>
+              <select
+                value={tree.flowerStyle ?? ""}
+                onChange={(e) => updateTree(selected, { flowerStyle: e.target.value || undefined })}
+                className={selectClass}
+              >
+                <option value="">跟随选择</option>
+                {listFlowerSpecies().map(species => (
+                  <option key={species.id} value={species.id}>{species.name}</option>
+                ))}
+              </select>
+            </label>
+            <div className="flex gap-4">
+              <button onClick={() => updateTree(selected, { seed: randomSeed() })} className={buttonClass}>
+                换个形状
+              </button>
+              <button onClick={removeTree} disabled={scene.trees.length <= 1} className={buttonClass}>
+                删除这棵
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          <button onClick={save} className={buttonClass}>
+            {isPresetScene(scene.id) ? "另存为新场景" : "保存"}
+          </button>
+          <button onClick={exportScene} className={buttonClass}>导出 JSON</button>
+          <button onClick={() => importInputRef.current?.click()} className={buttonClass}>导入 JSON</button>
+          {!isPresetScene(scene.id) && (
+            <button onClick={removeScene} className={buttonClass}>删除场景</button>
+          )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default SceneEditor;
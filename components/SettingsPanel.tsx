@@ -0,0 +1,153 @@
+import React, { useState } from "react";
+import { NumericSetting, resetTunables, Settings, SETTING_RANGES, updateSettings } from "../services/settings";
+import { QUALITY_SETTING_NAMES, QualitySetting } from "../services/performanceGovernor";
+import {
+  ACTION_NAMES,
+  DEFAULT_GESTURE_BINDINGS,
+  GESTURE_NAMES,
+  KNOWN_GESTURES,
+  loadGestureBindings,
+  saveGestureBindings,
+} from "../services/gestureBindings";
+import { TreeAction } from "../types";
+
+interface SettingsPanelProps {
+  settings: Settings;
+  onClose: () => void;
+}
+
+// Range from SETTING_RANGES
+interface SliderSpec {
+  key: NumericSetting;
+  label: string;
+  step: number;
+  format?: (value: number) => string;
+}
+
+const SECTIONS: { title: string; sliders: SliderSpec[] }[] = [
+  {
+    title: "互动",
+    sliders: [
+      { key: 'clickBoost', label: "点击灵敏度", step: 0.05, format: v => v.toFixed(2) },
+      { key: 'moodDecay', label: "凋谢速度", step: 0.0005, format: v => `${(v * 1000).toFixed(1)}` },
+      { key: 'windStrength', label: "风力", step: 0.1, format: v => `${v.toFixed(1)}×` },
+      { key: 'foreverSpeed', label: "永远花开节奏", step: 0.25, format: v => `${v.toFixed(2)}×` },
+      { key: 'inferenceFps', label: "识别频率", step: 1, format: v => `${v} fps` },
+    ],
+  },
+  {
+    title: "性能",
+    sliders: [
+      { key: 'frameRate', label: "帧率", step: 15, format: v => `${v} fps` },
+      { key: 'maxParticles', label: "粒子上限", step: 50, format: v => `${v}` },
+      { key: 'particleRate', label: "落花频率", step: 0.1, format: v => `${v.toFixed(1)}×` },
+    ],
+  },
+];
+
+const selectClass = "flex-1 bg-[#111425] border border-white/20 rounded px-2 py-1 text-white/80 outline-none";
+
+// Tunables and gesture bindings, saved as they change. The last-used
+// flower / scene / mode are remembered automatically and not shown here.
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onClose }) => {
+  const [bindings, setBindings] = useState(loadGestureBindings);
+
+  const bindGesture = (gesture: string, action: TreeAction | undefined) => {
+    const next = { ...bindings, [gesture]: action };
+    if (!action) delete next[gesture];
+    setBindings(next);
+    saveGestureBindings(next);
+  };
+
+  const resetAll = () => {
+    resetTunables();
+    setBindings(DEFAULT_GESTURE_BINDINGS);
+    saveGestureBindings(DEFAULT_GESTURE_BINDINGS);
+  };
+
+  return (
+    <div
+      className="absolute top-6 right-6 z-40 w-72 p-4 bg-[#111425]/90 border border-white/20 rounded-xl text-xs text-white/80 pointer-events-auto"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-pink-200 text-sm">设置</span>
+        <button onClick={onClose} className="text-white/40 hover:text-white/80 transition-colors">关闭</button>
+      </div>
+
+      {SECTIONS.map(section => (
+        <div key={section.title} className="mb-4">
+          <div className="text-white/40 mb-2">{section.title}</div>
+          {section.sliders.map(slider => (
+            <label key={slider.key} className="flex items-center gap-2 mb-2">
+              <span className="w-24 shrink-0">{slider.label}</span>
+              <input
+                type="range"
+                min={SETTING_RANGES[slider.key].min}
+                max={SETTING_RANGES[slider.key].max}
+                step={slider.step}
+                value={settings[slider.key]}
+                onChange={(e) => updateSettings({ [slider.key]: Number(e.target.value) })}
+                className="flex-1 accent-pink-400"
+              />
+              <span className="w-14 text-right tabular-nums text-white/60">
+                {slider.format ? slider.format(settings[slider.key]) : settings[slider.key]}
+              </span>
+            </label>
+          ))}
+        </div>
+      ))}
+
+      <label className="flex items-center gap-2 mb-4">
+        <span className="w-24 shrink-0">画质</span>
+        <select
+          value={settings.quality}
+          onChange={(e) => updateSettings({ quality: e.target.value as QualitySetting })}
+          className={selectClass}
+        >
+          {(Object.keys(QUALITY_SETTING_NAMES) as QualitySetting[]).map(key => (
+            <option key={key} value={key}>{QUALITY_SETTING_NAMES[key]}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 mb-4">
+        <input
+          type="checkbox"
+          checked={settings.resumeCapture}
+          onChange={(e) => updateSettings({ resumeCapture: e.target.checked })}
+          className="accent-pink-400"
+        />
+        <span>打开页面时恢复摄像头 / 麦克风模式</span>
+      </label>
+
+      <div className="mb-4">
+        <div className="text-white/40 mb-2">手势</div>
+        {KNOWN_GESTURES.map(gesture => (
+          <label key={gesture} className="flex items-center gap-2 mb-2">
+            <span className="w-24 shrink-0">{GESTURE_NAMES[gesture] ?? gesture}</span>
+            <select
+              value={bindings[gesture] ?? ""}
+              onChange={(e) => bindGesture(gesture, (e.target.value || undefined) as TreeAction | undefined)}
+              className={selectClass}
+            >
+              <option value="">无</option>
+              {(Object.keys(ACTION_NAMES) as TreeAction[]).map(action => (
+                <option key={action} value={action}>{ACTION_NAMES[action]}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={resetAll}
+        className="text-white/40 hover:text-white/80 transition-colors"
+      >
+        恢复默认
+      </button>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -1,19 +1,33 @@
 import React, { useRef, useEffect } from "react";
 import p5 from "p5";
-import { createSketch, TreeEventType } from "../services/treeSketch";
-import { TreeState, FlowerStyle } from "../types";
+import { createSketch, SketchTuning, TreeEventType, TreeSketchHooks } from "../services/treeSketch";
+import { GrowthProfile, NEUTRAL_GROWTH } from "../services/treeGrowth";
+import { CLASSIC_ENVIRONMENT, Environment } from "../services/environment";
+import { WeatherSetting } from "../services/weather";
+import { attachPointerInteraction } from "../services/pointerInteraction";
+import { TreeState, FlowerStyle, Scene } from "../types";
 
 interface SketchContainerProps {
   treeStateRef: React.MutableRefObject<TreeState>;
   flowerStyle: FlowerStyle;
-  sceneMode: number;
+  scene: Scene;
+  treeSpecies: string;
+  weather: WeatherSetting;
+  tuning: SketchTuning;
+  growthRef?: React.MutableRefObject<GrowthProfile>;
+  environmentRef?: React.MutableRefObject<Environment>;
+  // Filled with the sketch's one-shot actions once p5 is running
+  hooksRef?: React.MutableRefObject<TreeSketchHooks | null>;
 }
 
-const SketchContainer: React.FC<SketchContainerProps> = ({ treeStateRef, flowerStyle, sceneMode }) => {
+const SketchContainer: React.FC<SketchContainerProps> = ({ treeStateRef, flowerStyle, scene, treeSpecies, weather, tuning, growthRef, environmentRef, hooksRef }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const p5InstanceRef = useRef<p5 | null>(null);
   const flowerStyleRef = useRef<FlowerStyle>(flowerStyle);
-  const sceneModeRef = useRef<number>(sceneMode);
+  const sceneRef = useRef<Scene>(scene);
+  const treeSpeciesRef = useRef<string>(treeSpecies);
+  const weatherRef = useRef<WeatherSetting>(weather);
+  const tuningRef = useRef<SketchTuning>(tuning);
 
   // Keep the refs updated
   useEffect(() => {
@@ -21,26 +35,53 @@ const SketchContainer: React.FC<SketchContainerProps> = ({ treeStateRef, flowerS
   }, [flowerStyle]);
 
   useEffect(() => {
-    sceneModeRef.current = sceneMode;
-  }, [sceneMode]);
+    sceneRef.current = scene;
+  }, [scene]);
+
+  useEffect(() => {
+    treeSpeciesRef.current = treeSpecies;
+  }, [treeSpecies]);
+
+  useEffect(() => {
+    weatherRef.current = weather;
+  }, [weather]);
+
+  useEffect(() => {
+    tuningRef.current = tuning;
+  }, [tuning]);
 
   useEffect(() => {
     if (!containerRef.current) return;
 
     // Initialize p5
+    let sketchHooks: TreeSketchHooks | null = null;
     const sketch = createSketch(
-      () => treeStateRef.current, 
-      () => flowerStyleRef.current,
-      () => sceneModeRef.current
+      {
+        getTreeState: () => treeStateRef.current,
+        getFlowerStyle: () => flowerStyleRef.current,
+        getScene: () => sceneRef.current,
+        getTreeSpecies: () => treeSpeciesRef.current,
+        getGrowth: () => growthRef?.current ?? NEUTRAL_GROWTH,
+        getEnvironment: () => environmentRef?.current ?? CLASSIC_ENVIRONMENT,
+        getWeather: () => weatherRef.current,
+        getTuning: () => tuningRef.current,
+      },
+      (hooks) => {
+        sketchHooks = hooks;
+        if (hooksRef) hooksRef.current = hooks;
+      }
     );
     p5InstanceRef.current = new p5(sketch, containerRef.current);
+    const detachPointer = attachPointerInteraction(containerRef.current, () => sketchHooks);
 
     return () => {
       // Cleanup
+      detachPointer();
       if (p5InstanceRef.current) {
         p5InstanceRef.current.remove();
         p5InstanceRef.current = null;
       }
+      if (hooksRef) hooksRef.current = null;
     };
   }, []); // Only run once on mount
 
@@ -0,0 +1,51 @@
+// Copies the MediaPipe WASM fileset out of node_modules and downloads the
+// .task models into public/mediapipe, so they ship inside the build and smile
+// mode never needs the network at runtime.
+//
+// Usage: npm run assets:mediapipe
+import { copyFile, mkdir, readdir, writeFile, access } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const outDir = path.join(root, "public", "mediapipe");
+const wasmSrc = path.join(root, "node_modules", "@mediapipe", "tasks-vision", "wasm");
+
+const MODELS = {
+  "face_landmarker.task":
+    "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task",
+  "gesture_recognizer.task":
+    "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
+};
+
+const exists = async (file) => {
+  try {
+    await access(file);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 1. WASM fileset (version matches the installed @mediapipe/tasks-vision)
+await mkdir(path.join(outDir, "wasm"), { recursive: true });
+for (const file of await readdir(wasmSrc)) {
+  await copyFile(path.join(wasmSrc, file), path.join(outDir, "wasm", file));
+}
+console.log(`Copied WASM fileset to ${path.relative(root, outDir)}/wasm`);
+
+// 2. Models (skipped when already present, e.g. copied by hand on a kiosk)
+await mkdir(path.join(outDir, "models"), { recursive: true });
+for (const [file, url] of Object.entries(MODELS)) {
+  const target = path.join(outDir, "models", file);
+  if (await exists(target)) {
+    console.log(`Model ${file} already present, skipping`);
+    continue;
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`);
+  }
+  await writeFile(target, Buffer.from(await response.arrayBuffer()));
+  console.log(`Downloaded ${file}`);
+}
@@ -0,0 +1,136 @@
+// Microphone analysis with Web Audio, all on-device and heuristic:
+// - loudness: RMS level, smoothed over about a second
+// - blow: loud broadband noise (high spectral flatness, no pitch), what
+//   blowing into the mic looks like
+// - joy: laughter (voiced bursts a few times per second) or singing
+//   (sustained voicing), both count as happy sounds
+
+export interface AudioFeatures {
+  loudness: number; // 0..1
+  blow: number; // 0..1
+  joy: number; // 0..1
+}
+
+const FFT_SIZE = 2048;
+const PITCH_WINDOW = 1024; // Samples used for autocorrelation
+const MIN_PITCH_HZ = 80;
+const MAX_PITCH_HZ = 1000;
+const VOICED_CLARITY = 0.75; // Normalized autocorrelation peak for a pitched sound
+const MIN_VOICED_LEVEL = 0.2;
+
+const SILENCE_DB = -60;
+const LOUD_DB = -10;
+
+const BLOW_FLATNESS = 0.35;
+const BLOW_LEVEL = 0.55;
+
+const LAUGH_WINDOW_MS = 2000;
+const LAUGH_MIN_ONSETS = 4; // "ha" syllables per window
+const LAUGH_MAX_ONSETS = 16;
+const SING_VOICED_RATIO = 0.7;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Exponential smoothing towards target, `ms` is the time constant
+const follow = (current: number, target: number, dt: number, ms: number) =>
+  current + (target - current) * (1 - Math.exp(-dt / ms));
+
+const levelOf = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  const db = 20 * Math.log10(Math.max(rms, 1e-6));
+  return clamp01((db - SILENCE_DB) / (LOUD_DB - SILENCE_DB));
+};
+
+// Best normalized autocorrelation within the voice pitch range
+const pitchClarity = (samples: Float32Array, sampleRate: number) => {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_PITCH_HZ), PITCH_WINDOW - 1);
+  let energy = 0;
+  for (let i = 0; i < PITCH_WINDOW; i++) energy += samples[i] * samples[i];
+  if (energy === 0) return 0;
+
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < PITCH_WINDOW - lag; i++) sum += samples[i] * samples[i + lag];
+    if (sum > best) best = sum;
+  }
+  return best / energy;
+};
+
+// Geometric over arithmetic mean of the magnitude spectrum, 1 = white noise
+const spectralFlatness = (spectrumDb: Float32Array, sampleRate: number) => {
+  const binHz = sampleRate / FFT_SIZE;
+  const from = Math.floor(200 / binHz);
+  const to = Math.min(Math.ceil(6000 / binHz), spectrumDb.length);
+  let logSum = 0;
+  let sum = 0;
+  for (let i = from; i < to; i++) {
+    const magnitude = Math.pow(10, spectrumDb[i] / 20) + 1e-12;
+    logSum += Math.log(magnitude);
+    sum += magnitude;
+  }
+  const n = to - from;
+  return Math.exp(logSum / n) / (sum / n);
+};
+
+export const createAudioAnalyser = async (stream: MediaStream) => {
+  const context = new AudioContext();
+  // Started from a click, so resuming is allowed
+  await context.resume();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.3;
+  source.connect(analyser);
+
+  const timeData = new Float32Array(analyser.fftSize);
+  const freqData = new Float32Array(analyser.frequencyBinCount);
+
+  const features: AudioFeatures = { loudness: 0, blow: 0, joy: 0 };
+  let wasVoiced = false;
+  let voicedRatio = 0;
+  let onsets: number[] = [];
+  let lastTick: number | null = null;
+
+  return {
+    sample: (now: number): AudioFeatures => {
+      const dt = lastTick === null ? 0 : Math.min(now - lastTick, 1000);
+      lastTick = now;
+
+      analyser.getFloatTimeDomainData(timeData);
+      analyser.getFloatFrequencyData(freqData);
+
+      const level = levelOf(timeData);
+      const voiced = level > MIN_VOICED_LEVEL && pitchClarity(timeData, context.sampleRate) > VOICED_CLARITY;
+      const flatness = spectralFlatness(freqData, context.sampleRate);
+
+      // Laughter: count voiced onsets in a sliding window
+      if (voiced && !wasVoiced) onsets.push(now);
+      wasVoiced = voiced;
+      onsets = onsets.filter(t => now - t < LAUGH_WINDOW_MS);
+      const laughing = onsets.length >= LAUGH_MIN_ONSETS && onsets.length <= LAUGH_MAX_ONSETS;
+
+      // Singing: voiced most of the time over the last couple of seconds
+      voicedRatio = follow(voicedRatio, voiced ? 1 : 0, dt, LAUGH_WINDOW_MS);
+      const singing = voicedRatio > SING_VOICED_RATIO;
+
+      const blowing = !voiced && level > BLOW_LEVEL && flatness > BLOW_FLATNESS;
+
+      features.loudness = follow(features.loudness, level, dt, 1000);
+      features.blow = follow(features.blow, blowing ? level : 0, dt, blowing ? 100 : 600);
+      // Quick to cheer up, slow to forget
+      features.joy = follow(features.joy, laughing || singing ? 1 : 0, dt, laughing || singing ? 400 : 4000);
+
+      return features;
+    },
+    close: () => {
+      source.disconnect();
+      context.close();
+    },
+  };
+};
+
+export type AudioAnalyser = Awaited<ReturnType<typeof createAudioAnalyser>>;
@@ -0,0 +1,96 @@
+import { loadJSON, saveJSON } from "./storage";
+
+// Webcam access: device choice, resolution / frame rate, and noticing when
+// the stream dies (device unplugged, permission revoked) so the App can try
+// to get it back.
+
+export type CameraResolution = '480p' | '720p' | '1080p';
+
+export interface CameraSettings {
+  deviceId: string | null; // null = browser default
+  resolution: CameraResolution;
+  frameRate: number;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+const STORAGE_KEY = "camera";
+
+export const RESOLUTIONS: Record<CameraResolution, { width: number; height: number }> = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+};
+
+export const FRAME_RATES = [15, 24, 30, 60];
+
+// 640x480 is plenty for the face model and cheap to grab every frame
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = { deviceId: null, resolution: '480p', frameRate: 30 };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Stored values are checked one by one, a bad resolution or frame rate
+// would make every open fail
+export const loadCameraSettings = (): CameraSettings => {
+  const stored = loadJSON<unknown>(STORAGE_KEY, {});
+  const { deviceId, resolution, frameRate } = isObject(stored) ? stored : {};
+  return {
+    deviceId: typeof deviceId === 'string' && deviceId ? deviceId : DEFAULT_CAMERA_SETTINGS.deviceId,
+    resolution: typeof resolution === 'string' && Object.prototype.hasOwnProperty.call(RESOLUTIONS, resolution)
+      ? resolution as CameraResolution
+      : DEFAULT_CAMERA_SETTINGS.resolution,
+    // Snapped to the closest rate the picker offers
+    frameRate: typeof frameRate === 'number' && Number.isFinite(frameRate)
+      ? FRAME_RATES.reduce((best, rate) => Math.abs(rate - frameRate) < Math.abs(best - frameRate) ? rate : best)
+      : DEFAULT_CAMERA_SETTINGS.frameRate,
+  };
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => saveJSON(STORAGE_KEY, settings);
+
+// Labels are empty until the user granted camera access once
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === "videoinput")
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `摄像头 ${i + 1}` }));
+};
+
+export const openCamera = (settings: CameraSettings): Promise<MediaStream> => {
+  const { width, height } = RESOLUTIONS[settings.resolution];
+  return navigator.mediaDevices.getUserMedia({
+    video: {
+      // ideal, not exact: a camera that can't do it still opens
+      width: { ideal: width },
+      height: { ideal: height },
+      frameRate: { ideal: settings.frameRate },
+      ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+    },
+  });
+};
+
+export const stopStream = (stream: MediaStream) => {
+  stream.getTracks().forEach(track => track.stop());
+};
+
+// Calls onLost once when any track of the stream ends without us stopping
+// it. Returns a function that stops watching.
+export const watchStream = (stream: MediaStream, onLost: () => void): (() => void) => {
+  const tracks = stream.getVideoTracks();
+  let fired = false;
+  const handleEnded = () => {
+    if (fired) return;
+    fired = true;
+    onLost();
+  };
+  tracks.forEach(track => track.addEventListener("ended", handleEnded));
+  return () => tracks.forEach(track => track.removeEventListener("ended", handleEnded));
+};
+
+// A refused permission can't be fixed by retrying
+export const isPermissionError = (error: unknown) =>
+  error instanceof DOMException && (error.name === "NotAllowedError" || error.name === "SecurityError");
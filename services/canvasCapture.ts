@@ -0,0 +1,125 @@
+import { TreeSketchHooks } from "./treeSketch";
+import { createZip, ZipEntry } from "./zipWriter";
+
+// The p5 canvas is transparent, the sky is a CSS gradient behind it. Exports
+// paint the same gradient underneath so clips look like the live page.
+export const DEFAULT_BACKGROUND = ["#111425", "#2a2d55", "#d8a895"];
+
+export const CAPTURE_FPS = 30;
+
+const drawComposite = (
+  ctx: CanvasRenderingContext2D,
+  source: HTMLCanvasElement,
+  background: string[]
+) => {
+  const { width, height } = ctx.canvas;
+  const gradient = ctx.createLinearGradient(0, 0, 0, height);
+  background.forEach((color, i) => {
+    gradient.addColorStop(background.length > 1 ? i / (background.length - 1) : 0, color);
+  });
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+};
+
+const createCompositeCanvas = (source: HTMLCanvasElement) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("2D canvas context unavailable");
+  return { canvas, ctx };
+};
+
+const pickVideoMimeType = () => {
+  const candidates = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+// Records the live sketch in real time to WebM
+export const recordCanvasVideo = (
+  source: HTMLCanvasElement,
+  durationMs: number,
+  background: string[] = DEFAULT_BACKGROUND
+): Promise<Blob> => {
+  if (typeof MediaRecorder === "undefined") {
+    return Promise.reject(new Error("MediaRecorder is not supported in this browser"));
+  }
+  const mimeType = pickVideoMimeType();
+  if (!mimeType) {
+    return Promise.reject(new Error("WebM recording is not supported in this browser"));
+  }
+
+  const { canvas, ctx } = createCompositeCanvas(source);
+  const stream = canvas.captureStream(CAPTURE_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  let frame = 0;
+
+  const paint = () => {
+    drawComposite(ctx, source, background);
+    frame = requestAnimationFrame(paint);
+  };
+
+  return new Promise((resolve, reject) => {
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      cancelAnimationFrame(frame);
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: "video/webm" }));
+    };
+    recorder.onerror = (e) => {
+      cancelAnimationFrame(frame);
+      stream.getTracks().forEach(track => track.stop());
+      reject(e);
+    };
+
+    paint();
+    recorder.start();
+    setTimeout(() => recorder.stop(), durationMs);
+  });
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (!blob) {
+        reject(new Error("Failed to encode frame"));
+        return;
+      }
+      try {
+        resolve(new Uint8Array(await blob.arrayBuffer()));
+      } catch (error) {
+        reject(error);
+      }
+    }, "image/png");
+  });
+
+// Renders frame by frame at a fixed time step (independent of how long each
+// frame takes to encode) and returns a ZIP of numbered PNGs.
+export const exportFrameSequence = async (
+  hooks: TreeSketchHooks,
+  durationMs: number,
+  background: string[] = DEFAULT_BACKGROUND,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> => {
+  const source = hooks.getCanvas();
+  if (!source) throw new Error("Sketch canvas is not ready");
+
+  const count = Math.round((durationMs / 1000) * CAPTURE_FPS);
+  const { canvas, ctx } = createCompositeCanvas(source);
+  const entries: ZipEntry[] = [];
+
+  await hooks.renderFrames(count, CAPTURE_FPS, async (frame, index) => {
+    drawComposite(ctx, frame, background);
+    entries.push({
+      name: `frame_${String(index).padStart(5, "0")}.png`,
+      data: await canvasToPng(canvas),
+    });
+    onProgress?.((index + 1) / count);
+  });
+
+  return createZip(entries);
+};
@@ -0,0 +1,129 @@
+import { RGBA } from "./flowerSpecies";
+
+// Seasons and the day/night sky. Resolved from the local clock unless the
+// user overrides them, then handed to the sketch (palette, foliage,
+// particles) and the App background.
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+export type TimeOfDay = 'dawn' | 'day' | 'dusk' | 'night';
+
+export interface EnvironmentSettings {
+  season: Season | 'auto';
+  timeOfDay: TimeOfDay | 'auto';
+}
+
+export interface Environment {
+  season: Season;
+  timeOfDay: TimeOfDay;
+  trunkDormant: RGBA;
+  trunkThrive: RGBA;
+  leaf: RGBA;
+  foliageDensity: number; // Multiplier on how many tips carry leaves
+  // 0..1 share of flowering tips that actually bloom. Never 0: a smile
+  // always brings flowers, the season only decides how many.
+  flowerBloom: number;
+  snowCover: number; // 0..1 snow resting on branches
+  // Relative spawn weights of falling particle kinds
+  particles: { leaf: number; flower: number; snow: number };
+  sky: string[]; // Background gradient, top to bottom
+  light: number; // 0..1, night dims the tree towards the sky
+}
+
+export const DEFAULT_ENVIRONMENT_SETTINGS: EnvironmentSettings = { season: 'auto', timeOfDay: 'auto' };
+
+export const SEASON_NAMES: Record<Season, string> = {
+  spring: "春",
+  summer: "夏",
+  autumn: "秋",
+  winter: "冬",
+};
+
+export const TIME_OF_DAY_NAMES: Record<TimeOfDay, string> = {
+  dawn: "清晨",
+  day: "白天",
+  dusk: "黄昏",
+  night: "夜晚",
+};
+
+type SeasonLook = Pick<Environment, 'trunkDormant' | 'trunkThrive' | 'leaf' | 'foliageDensity' | 'flowerBloom' | 'snowCover' | 'particles'>;
+
+const SEASONS: Record<Season, SeasonLook> = {
+  // The original palette
+  spring: {
+    trunkDormant: [35, 30, 30, 255],
+    trunkThrive: [100, 70, 50, 255],
+    leaf: [120, 210, 100, 230],
+    foliageDensity: 1,
+    flowerBloom: 1,
+    snowCover: 0,
+    particles: { leaf: 1, flower: 1, snow: 0 },
+  },
+  summer: {
+    trunkDormant: [40, 32, 28, 255],
+    trunkThrive: [90, 65, 45, 255],
+    leaf: [60, 160, 70, 235],
+    foliageDensity: 1.3,
+    flowerBloom: 0.35,
+    snowCover: 0,
+    particles: { leaf: 1, flower: 0.3, snow: 0 },
+  },
+  autumn: {
+    trunkDormant: [45, 32, 25, 255],
+    trunkThrive: [110, 70, 40, 255],
+    leaf: [220, 110, 40, 230],
+    foliageDensity: 0.85,
+    flowerBloom: 0.3,
+    snowCover: 0,
+    particles: { leaf: 3, flower: 0.3, snow: 0 },
+  },
+  winter: {
+    trunkDormant: [40, 38, 42, 255],
+    trunkThrive: [85, 70, 62, 255],
+    leaf: [170, 190, 170, 180],
+    foliageDensity: 0.15,
+    flowerBloom: 0.25,
+    snowCover: 1,
+    particles: { leaf: 0.1, flower: 0.3, snow: 3 },
+  },
+};
+
+const SKIES: Record<TimeOfDay, { sky: string[]; light: number }> = {
+  dawn: { sky: ["#2a2d55", "#8a6f9e", "#f2c6a0"], light: 0.9 },
+  day: { sky: ["#1f3b63", "#4f7cac", "#b9d3e6"], light: 1 },
+  // The original gradient
+  dusk: { sky: ["#111425", "#2a2d55", "#d8a895"], light: 1 },
+  night: { sky: ["#05060f", "#0d1030", "#1f2447"], light: 0.55 },
+};
+
+// Northern hemisphere months
+export const seasonForDate = (date: Date): Season => {
+  const month = date.getMonth();
+  if (month >= 2 && month <= 4) return 'spring';
+  if (month >= 5 && month <= 7) return 'summer';
+  if (month >= 8 && month <= 10) return 'autumn';
+  return 'winter';
+};
+
+export const timeOfDayForDate = (date: Date): TimeOfDay => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 8) return 'dawn';
+  if (hour >= 8 && hour < 17) return 'day';
+  if (hour >= 17 && hour < 20) return 'dusk';
+  return 'night';
+};
+
+export const resolveEnvironment = (settings: EnvironmentSettings, date = new Date()): Environment => {
+  const season = settings.season === 'auto' ? seasonForDate(date) : settings.season;
+  const timeOfDay = settings.timeOfDay === 'auto' ? timeOfDayForDate(date) : settings.timeOfDay;
+  return {
+    season,
+    timeOfDay,
+    ...SEASONS[season],
+    ...SKIES[timeOfDay],
+  };
+};
+
+// What the sketch shows when no environment is supplied (original look)
+export const CLASSIC_ENVIRONMENT = resolveEnvironment({ season: 'spring', timeOfDay: 'dusk' });
+
+export const cssGradient = (sky: string[]) => `linear-gradient(to bottom, ${sky.join(", ")})`;
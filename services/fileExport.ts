@@ -0,0 +1,16 @@
+// Save a generated file through a temporary <a download> link
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// e.g. "2026-10-19_14-03-22", safe for filenames
+export const timestampForFilename = (date = new Date()) =>
+  date.toISOString().slice(0, 19).replace("T", "_").replace(/:/g, "-");
@@ -0,0 +1,161 @@
+import { FlowerStyle } from "../types";
+
+// Flower species registry. Each species is defined once, in unit space
+// (size = 1, petal pointing from the flower center at 0,0), and that
+// definition drives the bloom on the tree, the falling petal particle and
+// the selector icon.
+
+export type RGBA = [number, number, number, number];
+
+export type PathCommand =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['Q', number, number, number, number]
+  | ['C', number, number, number, number, number, number];
+
+export type PetalShape =
+  | { kind: 'ellipse'; cx: number; cy: number; w: number; h: number }
+  | { kind: 'path'; commands: PathCommand[] };
+
+export interface FlowerSpecies {
+  id: string;
+  name: string;
+  petalCount: number; // Petals are spread evenly around the center
+  petal: PetalShape;
+  petalColor: RGBA;
+  center: { color: RGBA; size: number }; // size = diameter relative to flower size
+}
+
+const FLOWER_PINK: RGBA = [255, 140, 170, 240];
+
+const registry = new Map<string, FlowerSpecies>();
+
+export const registerFlowerSpecies = (species: FlowerSpecies) => {
+  registry.set(species.id, species);
+};
+
+export const DEFAULT_FLOWER_SPECIES = 'peach';
+
+export const getFlowerSpecies = (id: string): FlowerSpecies =>
+  registry.get(id) ?? registry.get(DEFAULT_FLOWER_SPECIES)!;
+
+export const listFlowerSpecies = (): FlowerSpecies[] => Array.from(registry.values());
+
+// Ids from outside (imported files) that aren't registered become the default
+export const knownFlowerStyle = (id: unknown): FlowerStyle =>
+  typeof id === 'string' && registry.has(id) ? id : DEFAULT_FLOWER_SPECIES;
+
+// SVG path data for a petal, in unit space
+export const petalPathData = (commands: PathCommand[]): string =>
+  commands.map(([op, ...args]) => `${op}${args.join(" ")}`).join(" ") + " Z";
+
+// Adds one petal to a canvas path, centered at x,y and turned by `angle`.
+// Points are transformed here so many flowers can share one path and fill.
+export const tracePetal = (path: CanvasPath, petal: PetalShape, x: number, y: number, angle: number, size: number) => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const px = (u: number, v: number) => x + (u * cos - v * sin) * size;
+  const py = (u: number, v: number) => y + (u * sin + v * cos) * size;
+
+  if (petal.kind === 'ellipse') {
+    const cx = px(petal.cx, petal.cy);
+    const cy = py(petal.cx, petal.cy);
+    const rx = (petal.w * size) / 2;
+    path.moveTo(cx + rx * cos, cy + rx * sin);
+    path.ellipse(cx, cy, rx, (petal.h * size) / 2, angle, 0, Math.PI * 2);
+    return;
+  }
+  for (const command of petal.commands) {
+    if (command[0] === 'M') path.moveTo(px(command[1], command[2]), py(command[1], command[2]));
+    else if (command[0] === 'L') path.lineTo(px(command[1], command[2]), py(command[1], command[2]));
+    else if (command[0] === 'Q') {
+      const [, a, b, c, d] = command;
+      path.quadraticCurveTo(px(a, b), py(a, b), px(c, d), py(c, d));
+    } else {
+      const [, a, b, c, d, e, f] = command;
+      path.bezierCurveTo(px(a, b), py(a, b), px(c, d), py(c, d), px(e, f), py(e, f));
+    }
+  }
+  path.closePath();
+};
+
+// --- Built-in Species ---
+
+registerFlowerSpecies({
+  id: 'peach',
+  name: "Peach",
+  petalCount: 5,
+  petal: { kind: 'ellipse', cx: 0, cy: 0.4, w: 0.5, h: 0.6 },
+  petalColor: FLOWER_PINK,
+  center: { color: [255, 220, 100, 255], size: 0.3 },
+});
+
+registerFlowerSpecies({
+  id: 'sakura',
+  name: "Sakura",
+  petalCount: 5,
+  petal: {
+    kind: 'path',
+    commands: [
+      ['M', 0, 0],
+      ['Q', -0.45, -0.425, 0, -0.85],
+      ['Q', 0.45, -0.425, 0, 0],
+    ],
+  },
+  petalColor: FLOWER_PINK,
+  center: { color: [255, 255, 255, 220], size: 0.2 },
+});
+
+// Long-clawed petals: thin stem widening into a rounded head
+registerFlowerSpecies({
+  id: 'delonix',
+  name: "Delonix",
+  petalCount: 5,
+  petal: {
+    kind: 'path',
+    commands: [
+      ['M', 0, 0],
+      ['L', -0.04, -0.63],
+      ['C', -0.35, -0.71, -0.35, -0.95, 0, -0.95],
+      ['C', 0.35, -0.95, 0.35, -0.71, 0.04, -0.63],
+      ['L', 0, 0],
+    ],
+  },
+  petalColor: FLOWER_PINK,
+  center: { color: [255, 200, 100, 150], size: 0.15 },
+});
+
+registerFlowerSpecies({
+  id: 'plum',
+  name: "Plum",
+  petalCount: 5,
+  petal: { kind: 'ellipse', cx: 0, cy: -0.3, w: 0.45, h: 0.45 },
+  petalColor: [220, 60, 100, 240],
+  center: { color: [255, 230, 150, 230], size: 0.2 },
+});
+
+registerFlowerSpecies({
+  id: 'magnolia',
+  name: "Magnolia",
+  petalCount: 6,
+  petal: {
+    kind: 'path',
+    commands: [
+      ['M', 0, 0],
+      ['C', -0.3, -0.2, -0.25, -0.9, 0, -1.0],
+      ['C', 0.25, -0.9, 0.3, -0.2, 0, 0],
+    ],
+  },
+  petalColor: [250, 225, 235, 240],
+  center: { color: [200, 160, 120, 200], size: 0.12 },
+});
+
+// Tiny four-petal clusters
+registerFlowerSpecies({
+  id: 'osmanthus',
+  name: "Osmanthus",
+  petalCount: 4,
+  petal: { kind: 'ellipse', cx: 0, cy: -0.22, w: 0.38, h: 0.42 },
+  petalColor: [255, 190, 60, 245],
+  center: { color: [230, 140, 30, 220], size: 0.12 },
+});
@@ -0,0 +1,89 @@
+import { TreeAction } from "../types";
+import { loadJSON, saveJSON } from "./storage";
+
+// GestureRecognizer category name -> action. Unbound gestures do nothing.
+export type GestureBindings = Partial<Record<string, TreeAction>>;
+
+const STORAGE_KEY = "gestureBindings";
+
+// Categories the stock gesture_recognizer.task model can output
+export const KNOWN_GESTURES = [
+  "Closed_Fist",
+  "Open_Palm",
+  "Pointing_Up",
+  "Thumb_Down",
+  "Thumb_Up",
+  "Victory",
+  "ILoveYou",
+];
+
+export const GESTURE_NAMES: Record<string, string> = {
+  Closed_Fist: "握拳",
+  Open_Palm: "张开手掌",
+  Pointing_Up: "食指向上",
+  Thumb_Down: "拇指向下",
+  Thumb_Up: "竖起拇指",
+  Victory: "剪刀手",
+  ILoveYou: "我爱你",
+};
+
+export const ACTION_NAMES: Record<TreeAction, string> = {
+  petalBurst: "花瓣飞散",
+  moodBoost: "瞬间开花",
+  calmWind: "风停",
+  nextFlowerStyle: "换一种花",
+};
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  Open_Palm: 'petalBurst',
+  Thumb_Up: 'moodBoost',
+  Closed_Fist: 'calmWind',
+  Victory: 'nextFlowerStyle',
+};
+
+// A pose has to be held this long before it counts, so passing through a
+// pose while waving doesn't fire anything.
+const HOLD_MS = 300;
+// Minimum time between two firings of the same action
+const COOLDOWN_MS = 1500;
+
+// Read once, edits from the settings panel replace the cached copy
+let bindings: GestureBindings | null = null;
+
+export const loadGestureBindings = (): GestureBindings =>
+  bindings ?? (bindings = loadJSON<GestureBindings>(STORAGE_KEY, DEFAULT_GESTURE_BINDINGS));
+
+export const saveGestureBindings = (next: GestureBindings) => {
+  bindings = next;
+  saveJSON(STORAGE_KEY, next);
+};
+
+// Turns the per-frame gesture stream into one-shot actions: each held pose
+// fires once, and must be released before it can fire again. Bindings are
+// looked up when a pose fires, so edits apply to a running source too.
+export const createGestureTrigger = (getBindings: () => GestureBindings = loadGestureBindings) => {
+  let current: string | null = null;
+  let since = 0;
+  let fired = false;
+  const lastFired = new Map<TreeAction, number>();
+
+  return {
+    update: (gesture: string | null, now: number): TreeAction | null => {
+      if (gesture !== current) {
+        current = gesture;
+        since = now;
+        fired = false;
+        return null;
+      }
+      if (!gesture || fired || now - since < HOLD_MS) return null;
+
+      const action = getBindings()[gesture];
+      if (!action) return null;
+      if (now - (lastFired.get(action) ?? -Infinity) < COOLDOWN_MS) return null;
+
+      fired = true;
+      lastFired.set(action, now);
+      return action;
+    },
+  };
+};
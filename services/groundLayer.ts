@@ -0,0 +1,86 @@
+import { FlowerStyle } from "../types";
+
+// Fallen petals and leaves resting on the bottom edge of the canvas. They
+// pile up into drifts, strong wind blows them back into the air and left
+// alone they slowly wither away. The more someone has smiled over time
+// (growth carpet), the longer petals last and the higher the drifts get.
+
+export interface SettledPetal {
+  x: number;
+  y: number; // Resting height, on top of the drift it landed on
+  angle: number;
+  size: number;
+  fill: string; // CSS colour
+  opacity: number; // 0 to 1, what was left of the fade when it landed
+  kind: 'leaf' | 'flower';
+  style?: FlowerStyle; // Flower species, kept for when it is blown up again
+  landedAt: number; // Sketch millis
+}
+
+const DRIFT_COLUMN = 12; // px of ground per drift column
+const DRIFT_STEP = 0.4; // px a column rises per petal
+const MAX_DRIFT = 16; // px, highest a drift gets on a young tree
+const CARPET_DRIFT = 24; // px added at full growth
+const LIFE_MS = 90000; // Until a petal has withered away, young tree
+const CARPET_LIFE_MS = 510000; // Added at full growth, ten minutes in all
+const WITHER_MS = 20000; // Fade-out at the end of that
+const LIFT_WIND = 0.5; // Wind needed before anything moves
+const LIFT_RATE = 0.03; // Per-frame lift chance per petal, per unit of wind above that
+
+export const createGroundLayer = () => {
+  let petals: SettledPetal[] = [];
+  let drift = new Float32Array(1); // Petals per column
+  let groundY = 0;
+  let lifeMs = LIFE_MS;
+  let maxDrift = MAX_DRIFT;
+
+  const column = (x: number) => Math.min(Math.max(Math.floor(x / DRIFT_COLUMN), 0), drift.length - 1);
+
+  const remove = (index: number) => {
+    drift[column(petals[index].x)]--;
+    petals.splice(index, 1);
+  };
+
+  return {
+    // Canvas size changed, the old ground doesn't fit anymore
+    resize: (width: number, height: number) => {
+      groundY = height;
+      drift = new Float32Array(Math.ceil(width / DRIFT_COLUMN) + 1);
+      petals = [];
+    },
+    // Growth profile carpet, 0..1
+    setCarpet: (carpet: number) => {
+      lifeMs = LIFE_MS + carpet * CARPET_LIFE_MS;
+      maxDrift = MAX_DRIFT + carpet * CARPET_DRIFT;
+    },
+    // Top of the drift at x, falling petals land when they reach it
+    surfaceAt: (x: number): number => groundY - Math.min(drift[column(x)] * DRIFT_STEP, maxDrift),
+    // Oldest petals make room once `cap` is reached
+    land: (petal: SettledPetal, cap: number) => {
+      petals.push(petal);
+      drift[column(petal.x)]++;
+      while (petals.length > Math.max(cap, 0)) remove(0);
+    },
+    // Drops withered petals and returns the ones the wind picked up
+    update: (now: number, wind: number, random: () => number): SettledPetal[] => {
+      const lifted: SettledPetal[] = [];
+      const liftChance = (Math.abs(wind) - LIFT_WIND) * LIFT_RATE;
+      for (let i = petals.length - 1; i >= 0; i--) {
+        const petal = petals[i];
+        if (now - petal.landedAt > lifeMs) {
+          remove(i);
+        } else if (liftChance > 0 && random() < liftChance) {
+          lifted.push(petal);
+          remove(i);
+        }
+      }
+      return lifted;
+    },
+    petals: (): readonly SettledPetal[] => petals,
+    // 1 while fresh, down to 0 over the last WITHER_MS
+    freshness: (petal: SettledPetal, now: number): number =>
+      Math.max(0, Math.min(1, (lifeMs - (now - petal.landedAt)) / WITHER_MS)),
+  };
+};
+
+export type GroundLayer = ReturnType<typeof createGroundLayer>;
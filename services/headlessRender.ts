@@ -0,0 +1,133 @@
+import p5 from "p5";
+import { FlowerStyle, Scene, TreeState } from "../types";
+import { createSketch, SketchClock, TreeSketchHooks } from "./treeSketch";
+import { RecordedSession } from "./sessionRecording";
+import { DEFAULT_TREE_SPECIES } from "./treeSpecies";
+import { WeatherSetting } from "./weather";
+
+// Everything that drives the sketch, as a function of time (ms from start)
+export interface RenderTimeline {
+  state: (t: number) => TreeState;
+  flowerStyle: (t: number) => FlowerStyle;
+  scene: (t: number) => Scene;
+  treeSpecies?: (t: number) => string; // Defaults to the classic tree
+  weather?: (t: number) => WeatherSetting; // Defaults to mood-driven
+}
+
+export interface HeadlessRenderOptions {
+  timeline: RenderTimeline;
+  frames: number;
+  fps?: number; // Simulated frame rate, default 30
+  width?: number;
+  height?: number;
+  seed?: number;
+}
+
+// Steps through a recorded session (see sessionRecording) by time
+export const sessionTimeline = (session: RecordedSession): RenderTimeline => {
+  const valueAt = <T>(t: number, initial: T, pick: (e: RecordedSession['events'][number]) => T | undefined): T => {
+    let value = initial;
+    for (const event of session.events) {
+      if (event.t > t) break;
+      const picked = pick(event);
+      if (picked !== undefined) value = picked;
+    }
+    return value;
+  };
+
+  return {
+    state: (t) => valueAt<TreeState>(t, { mood: -1, windForce: 0 }, e =>
+      e.type === 'state' ? { mood: e.mood, windForce: e.wind, people: e.people, moodSensed: e.sensed, moodFiltered: e.filtered } : undefined),
+    flowerStyle: (t) => valueAt(t, session.header.flowerStyle, e =>
+      e.type === 'flowerStyle' ? e.value : undefined),
+    scene: (t) => valueAt(t, session.header.scene, e =>
+      e.type === 'scene' ? e.value : undefined),
+  };
+};
+
+const waitForCanvas = async (hooks: TreeSketchHooks) => {
+  // p5 runs setup synchronously once the document has loaded, otherwise on load
+  for (let i = 0; i < 100 && !hooks.getCanvas(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  if (!hooks.getCanvas()) throw new Error("Headless sketch failed to start");
+};
+
+// FNV-1a over the pixels, enough to tell two renders apart
+const hashCanvas = (canvas: HTMLCanvasElement): number => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas has no 2D context");
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash = Math.imul(hash ^ data[i], 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Renders the same options twice and compares them frame by frame. Resolves
+// with the first frame that differs, null when both runs match.
+export const findUnstableFrame = async (options: HeadlessRenderOptions): Promise<number | null> => {
+  const hashes: number[] = [];
+  await renderHeadless(options, (canvas) => { hashes.push(hashCanvas(canvas)); });
+  let unstable: number | null = null;
+  await renderHeadless(options, (canvas, index) => {
+    if (unstable === null && hashCanvas(canvas) !== hashes[index]) unstable = index;
+  });
+  return unstable;
+};
+
+// Renders a timeline offscreen as fast as frames can be drawn. Time, frame
+// count and randomness are all fixed, so the same options always produce
+// the same pixels (golden-image comparisons, frame-exact exports).
+export const renderHeadless = async (
+  options: HeadlessRenderOptions,
+  onFrame: (canvas: HTMLCanvasElement, index: number) => void | Promise<void>
+): Promise<void> => {
+  const fps = options.fps ?? 30;
+  let frame = 0;
+  const t = () => (frame * 1000) / fps;
+
+  const clock: SketchClock = {
+    millis: t,
+    frameCount: () => frame,
+  };
+
+  let hooks: TreeSketchHooks | null = null;
+  const sketch = createSketch(
+    {
+      getTreeState: () => options.timeline.state(t()),
+      getFlowerStyle: () => options.timeline.flowerStyle(t()),
+      getScene: () => options.timeline.scene(t()),
+      getTreeSpecies: () => options.timeline.treeSpecies?.(t()) ?? DEFAULT_TREE_SPECIES,
+      getWeather: () => options.timeline.weather?.(t()) ?? 'auto',
+    },
+    (h) => { hooks = h; },
+    {
+      clock,
+      seed: options.seed ?? 1,
+      width: options.width ?? 800,
+      height: options.height ?? 600,
+      pixelDensity: 1,
+      autoLoop: false,
+    }
+  );
+
+  // Off-screen but attached, p5 needs a parent element
+  const host = document.createElement("div");
+  host.style.cssText = "position:fixed;left:-10000px;top:0;pointer-events:none;";
+  document.body.appendChild(host);
+  const instance = new p5(sketch, host);
+
+  try {
+    await waitForCanvas(hooks!);
+    const canvas = hooks!.getCanvas()!;
+    for (frame = 0; frame < options.frames; frame++) {
+      instance.redraw();
+      await onFrame(canvas, frame);
+    }
+  } finally {
+    instance.remove();
+    host.remove();
+  }
+};
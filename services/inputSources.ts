@@ -0,0 +1,183 @@
+import { initializeVision, analyzeFrame, setMoodCurve, setGroupMode } from "./visionService";
+import { loadMoodCurve } from "./moodCalibration";
+import { createGestureTrigger } from "./gestureBindings";
+import { playbackSource } from "./playbackSource";
+import { AudioAnalyser, createAudioAnalyser } from "./audioService";
+import { getSettings } from "./settings";
+import { InputSource, InputSourceContext, TreeState } from "../types";
+
+// --- Registry ---
+// Sources are listed in registration order (this is also the toggle order in the UI)
+const registry = new Map<string, InputSource>();
+
+export const DEFAULT_INPUT_SOURCE_ID = 'click';
+
+export const registerInputSource = (source: InputSource) => {
+  if (registry.has(source.id)) {
+    console.warn(`Input source "${source.id}" is already registered, replacing it.`);
+  }
+  registry.set(source.id, source);
+};
+
+export const getInputSource = (id: string): InputSource | undefined => registry.get(id);
+
+export const listInputSources = (): InputSource[] =>
+  Array.from(registry.values()).filter(source => source.isAvailable?.() ?? true);
+
+// Context used before a source has been started
+const IDLE_CONTEXT: InputSourceContext = {
+  video: null,
+  audio: null,
+  dispatch: () => {},
+  setFlowerStyle: () => {},
+  setScene: () => {},
+};
+
+// --- Built-in Sources ---
+
+// Each click adds a burst of mood which slowly decays back to withered.
+// Boost and decay come from the settings panel. Clicks aren't smiles, so
+// they don't count toward long-term growth.
+export const createClickSource = (): InputSource => {
+  let mood = -1;
+
+  return {
+    id: 'click',
+    label: "点击花开",
+    iconPath: "M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122",
+    capabilities: { needsCamera: false, needsMicrophone: false, tendsTree: false },
+    start: async () => {},
+    stop: () => {},
+    sample: () => {
+      if (mood > -1) {
+        mood -= getSettings().moodDecay;
+      }
+      if (mood < -1) mood = -1;
+
+      return { mood, windForce: 0 };
+    },
+    handleClick: () => {
+      mood = Math.min(mood + getSettings().clickBoost, 1.0);
+    },
+  };
+};
+
+// Webcam driven: smile/frown sets mood, hand waving sets wind, hand poses
+// trigger one-shot actions (see gestureBindings)
+export const createSmileSource = (): InputSource => {
+  let context: InputSourceContext = IDLE_CONTEXT;
+  let gestures = createGestureTrigger();
+
+  return {
+    id: 'smile',
+    label: "微笑花开",
+    iconPath: "M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z",
+    capabilities: { needsCamera: true, needsMicrophone: false, tendsTree: true },
+    start: async (ctx) => {
+      context = ctx;
+      // Lazy load models on first use
+      await initializeVision();
+      setMoodCurve(loadMoodCurve());
+      gestures = createGestureTrigger();
+    },
+    stop: () => {},
+    sample: (now): TreeState => {
+      const video = context.video;
+      if (video && !video.paused && !video.ended && video.srcObject) {
+        const { moodScore, movementScore, gesture, headX, facePresent } = analyzeFrame(video);
+        const action = gestures.update(gesture, now);
+        if (action) context.dispatch(action);
+        return { mood: moodScore, windForce: movementScore, headX: headX ?? undefined, moodSensed: facePresent, moodFiltered: true };
+      }
+      return { mood: -0.5, windForce: 0 };
+    },
+  };
+};
+
+// Webcam driven, several people at once. Each face gets its own mood which
+// the forest scene spreads over the trees nearest to that person.
+export const createGroupSource = (): InputSource => {
+  let context: InputSourceContext = IDLE_CONTEXT;
+  let gestures = createGestureTrigger();
+
+  return {
+    id: 'group',
+    label: "众人花开",
+    iconPath: "M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z",
+    capabilities: { needsCamera: true, needsMicrophone: false, tendsTree: true },
+    start: async (ctx) => {
+      context = ctx;
+      await initializeVision();
+      await setGroupMode(true);
+      setMoodCurve(loadMoodCurve());
+      gestures = createGestureTrigger();
+    },
+    stop: () => {
+      setGroupMode(false);
+    },
+    sample: (now): TreeState => {
+      const video = context.video;
+      if (video && !video.paused && !video.ended && video.srcObject) {
+        const { moodScore, movementScore, faces, gesture, headX, facePresent } = analyzeFrame(video);
+        const action = gestures.update(gesture, now);
+        if (action) context.dispatch(action);
+        return { mood: moodScore, windForce: movementScore, people: faces, headX: headX ?? undefined, moodSensed: facePresent, moodFiltered: true };
+      }
+      return { mood: -0.5, windForce: 0, people: [] };
+    },
+  };
+};
+
+// Microphone driven: laughing or singing makes the tree bloom, loud sound
+// or blowing into the mic sets the wind
+export const createVoiceSource = (): InputSource => {
+  let analyser: AudioAnalyser | null = null;
+
+  return {
+    id: 'voice',
+    label: "声音花开",
+    iconPath: "M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z",
+    capabilities: { needsCamera: false, needsMicrophone: true, tendsTree: true },
+    start: async (ctx) => {
+      if (!ctx.audio) throw new Error("Voice source needs a microphone stream");
+      analyser = await createAudioAnalyser(ctx.audio);
+    },
+    stop: () => {
+      analyser?.close();
+      analyser = null;
+    },
+    sample: (now): TreeState => {
+      if (!analyser) return { mood: -0.5, windForce: 0 };
+      const { loudness, blow, joy } = analyser.sample(now);
+      return {
+        mood: -0.5 + joy * 1.5,
+        windForce: Math.min(Math.max(loudness * 0.5, blow * 1.5), 1.5),
+      };
+    },
+  };
+};
+
+// Endless gentle bloom, no input required
+export const createForeverSource = (): InputSource => ({
+  id: 'forever',
+  label: "永远花开",
+  iconPath: "M12 3v2.25m6.364.386l-1.591 1.591M21 12h-2.25m-.386 6.364l-1.591-1.591M12 18.75V21m-4.773-4.227l-1.591 1.591M5.25 12H3m4.227-4.773L5.636 5.636M15.75 12a3.75 3.75 0 11-7.5 0 3.75 3.75 0 017.5 0z",
+  capabilities: { needsCamera: false, needsMicrophone: false, tendsTree: false },
+  start: async () => {},
+  stop: () => {},
+  sample: (now) => {
+    const time = now * 0.001 * getSettings().foreverSpeed;
+    const oscillation = Math.sin(time * 0.8);
+    const targetMood = 0.6 + (0.4 * (oscillation + 1) / 2);
+    const gentleWind = 0.15 * Math.sin(time * 0.3);
+
+    return { mood: targetMood, windForce: gentleWind };
+  },
+});
+
+registerInputSource(createClickSource());
+registerInputSource(createSmileSource());
+registerInputSource(createGroupSource());
+registerInputSource(createVoiceSource());
+registerInputSource(createForeverSource());
+registerInputSource(playbackSource);
@@ -0,0 +1,74 @@
+import { MoodCurve, MouthScores } from "../types";
+import { loadJSON, saveJSON, removeItem } from "./storage";
+
+const STORAGE_KEY = "moodCurve";
+
+// Matches the original hard-coded mapping: THRESHOLD = 0.005, gain 40
+export const DEFAULT_MOOD_CURVE: MoodCurve = {
+  smileBaseline: 0.005,
+  smileGain: 40.0,
+  frownBaseline: 0.005,
+  frownGain: 40.0,
+  deadzone: 0,
+  exponent: 1,
+};
+
+// Smallest neutral -> expression span we accept, otherwise the gain explodes
+const MIN_SPAN = 0.02;
+// Calibrated expressions reach full mood slightly before the recorded peak
+const PEAK_HEADROOM = 0.85;
+
+export type CalibrationStep = 'neutral' | 'smile' | 'frown';
+
+export type CalibrationSamples = Record<CalibrationStep, MouthScores[]>;
+
+const shape = (score: number, baseline: number, gain: number, curve: MoodCurve) => {
+  const delta = score - baseline - curve.deadzone;
+  if (delta <= 0) return 0;
+  return Math.pow(Math.min(delta * gain, 1), curve.exponent);
+};
+
+// Smile wins over frown, same as the original if/else
+export const applyMoodCurve = (scores: MouthScores, curve: MoodCurve): number => {
+  const smile = shape(scores.smile, curve.smileBaseline, curve.smileGain, curve);
+  if (smile > 0) return smile;
+  const frown = shape(scores.frown, curve.frownBaseline, curve.frownGain, curve);
+  if (frown > 0) return -frown;
+  return 0;
+};
+
+const percentile = (values: number[], q: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const idx = Math.min(sorted.length - 1, Math.floor(q * sorted.length));
+  return sorted[idx];
+};
+
+// Baseline sits at the top of the resting noise so a neutral face reads as 0,
+// gain is chosen so the recorded expression maps to a full bloom / wither.
+export const deriveMoodCurve = (samples: CalibrationSamples): MoodCurve => {
+  const restSmile = percentile(samples.neutral.map(s => s.smile), 0.9);
+  const restFrown = percentile(samples.neutral.map(s => s.frown), 0.9);
+  const peakSmile = percentile(samples.smile.map(s => s.smile), 0.5);
+  const peakFrown = percentile(samples.frown.map(s => s.frown), 0.5);
+
+  const smileSpan = Math.max((peakSmile - restSmile) * PEAK_HEADROOM, MIN_SPAN);
+  const frownSpan = Math.max((peakFrown - restFrown) * PEAK_HEADROOM, MIN_SPAN);
+
+  return {
+    ...DEFAULT_MOOD_CURVE,
+    smileBaseline: restSmile,
+    smileGain: 1 / smileSpan,
+    frownBaseline: restFrown,
+    frownGain: 1 / frownSpan,
+  };
+};
+
+export const loadMoodCurve = (): MoodCurve => ({
+  ...DEFAULT_MOOD_CURVE,
+  ...loadJSON<Partial<MoodCurve>>(STORAGE_KEY, {}),
+});
+
+export const saveMoodCurve = (curve: MoodCurve) => saveJSON(STORAGE_KEY, curve);
+
+export const resetMoodCurve = () => removeItem(STORAGE_KEY);
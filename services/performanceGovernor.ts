@@ -0,0 +1,94 @@
+// Keeps the sketch smooth on slow machines. Measures how long each frame
+// takes to draw and how often frames actually arrive, and steps the render
+// quality down when the budget is blown (or back up when there is room).
+//
+// Quality only changes render-time limits; tree skeletons stay as built,
+// so trees don't change shape when the level switches.
+
+export type QualitySetting = 'auto' | 'low' | 'high';
+
+export interface QualityLevel {
+  name: string;
+  depthOffset: number; // Added to each tree's depth limit while rendering
+  foliageLevels: number; // Outermost branch levels that carry leaves / flowers
+  particleScale: number; // Multiplier on the particle budget
+  maxFrameRate: number; // Cap on the configured frame rate
+}
+
+// Highest quality first
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { name: "高", depthOffset: 0, foliageLevels: 4, particleScale: 1, maxFrameRate: 60 },
+  { name: "中", depthOffset: -1, foliageLevels: 3, particleScale: 0.6, maxFrameRate: 60 },
+  { name: "低", depthOffset: -2, foliageLevels: 2, particleScale: 0.35, maxFrameRate: 24 },
+];
+
+export const QUALITY_SETTING_NAMES: Record<QualitySetting, string> = {
+  auto: "自动",
+  high: "高",
+  low: "低",
+};
+
+const SMOOTHING = 0.05; // Per-frame weight of the moving averages
+const SLOW_FRAME = 1.25; // Interval over target that counts as dropping frames
+const BUSY_WORK = 0.85; // Share of the frame budget spent drawing
+const IDLE_WORK = 0.35; // Below this there is room for more detail
+const DOWNGRADE_AFTER_MS = 2000; // Sustained trouble before stepping down
+const UPGRADE_AFTER_MS = 8000; // Sustained headroom before stepping up
+const SETTLE_MS = 3000; // Ignore measurements right after a change
+const PAUSE_MS = 1000; // Longer gaps are a paused loop, not a slow frame
+
+export const createPerformanceGovernor = () => {
+  let level = 0;
+  let workMs = 0; // Average time spent in draw
+  let intervalMs = 0; // Average time between frames
+  let lastFrameAt: number | null = null;
+  let troubleSince: number | null = null;
+  let headroomSince: number | null = null;
+  let settledAt = 0;
+
+  const change = (next: number, now: number) => {
+    level = Math.max(0, Math.min(QUALITY_LEVELS.length - 1, next));
+    troubleSince = null;
+    headroomSince = null;
+    settledAt = now + SETTLE_MS;
+  };
+
+  return {
+    // Once per drawn frame, with real (not sketch) time. Returns the level
+    // to render the next frame with.
+    update: (now: number, drawMs: number, targetFps: number, setting: QualitySetting): QualityLevel => {
+      if (setting !== 'auto') {
+        level = setting === 'high' ? 0 : QUALITY_LEVELS.length - 1;
+        lastFrameAt = null;
+        return QUALITY_LEVELS[level];
+      }
+
+      if (lastFrameAt !== null && now - lastFrameAt < PAUSE_MS) {
+        intervalMs += SMOOTHING * (now - lastFrameAt - intervalMs);
+      }
+      lastFrameAt = now;
+      workMs += SMOOTHING * (drawMs - workMs);
+      if (now < settledAt) return QUALITY_LEVELS[level];
+
+      const budget = 1000 / targetFps;
+      const struggling = intervalMs > budget * SLOW_FRAME || workMs > budget * BUSY_WORK;
+      const idle = intervalMs <= budget * SLOW_FRAME && workMs < budget * IDLE_WORK;
+
+      troubleSince = struggling ? troubleSince ?? now : null;
+      headroomSince = idle ? headroomSince ?? now : null;
+
+      if (troubleSince !== null && now - troubleSince > DOWNGRADE_AFTER_MS) {
+        change(level + 1, now);
+      } else if (headroomSince !== null && now - headroomSince > UPGRADE_AFTER_MS && level > 0) {
+        change(level - 1, now);
+      }
+      return QUALITY_LEVELS[level];
+    },
+    // Long pauses (hidden tab, frame export) say nothing about performance
+    pause: () => {
+      lastFrameAt = null;
+    },
+  };
+};
+
+export type PerformanceGovernor = ReturnType<typeof createPerformanceGovernor>;
@@ -0,0 +1,73 @@
+import { InputSource, InputSourceContext, TreeState } from "../types";
+import { RecordedSession } from "./sessionRecording";
+
+// Replays a recorded session as if it were a live driver. Loops at the end
+// so it can run unattended as a demo.
+export const createPlaybackSource = () => {
+  let session: RecordedSession | null = null;
+  let context: InputSourceContext | null = null;
+  let startTime = 0;
+  let cursor = 0;
+  let state: TreeState = { mood: -1, windForce: 0 };
+
+  const rewind = (now: number) => {
+    startTime = now;
+    cursor = 0;
+    if (session && context) {
+      context.setFlowerStyle(session.header.flowerStyle);
+      context.setScene(session.header.scene);
+    }
+  };
+
+  const source: InputSource & { load: (recording: RecordedSession) => void } = {
+    id: 'playback',
+    label: "回放录制",
+    iconPath: "M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664zM21 12a9 9 0 11-18 0 9 9 0 0118 0z",
+    capabilities: { needsCamera: false, needsMicrophone: false, tendsTree: false },
+    isAvailable: () => session !== null,
+    load: (recording) => {
+      session = recording;
+      // Restart from the top if a new file is loaded mid-playback
+      if (context) rewind(performance.now());
+    },
+    start: async (ctx) => {
+      if (!session) throw new Error("No session loaded for playback");
+      context = ctx;
+      state = { mood: -1, windForce: 0 };
+      rewind(performance.now());
+    },
+    stop: () => {
+      context = null;
+    },
+    sample: (now) => {
+      if (!session || !context) return state;
+
+      const events = session.events;
+      const lastT = events.length > 0 ? events[events.length - 1].t : 0;
+      if (lastT > 0 && now - startTime > lastT) {
+        rewind(now);
+      }
+
+      const t = now - startTime;
+      while (cursor < events.length && events[cursor].t <= t) {
+        const event = events[cursor++];
+        switch (event.type) {
+          case 'state':
+            state = { mood: event.mood, windForce: event.wind, people: event.people, moodSensed: event.sensed, moodFiltered: event.filtered };
+            break;
+          case 'flowerStyle':
+            context.setFlowerStyle(event.value);
+            break;
+          case 'scene':
+            context.setScene(event.value);
+            break;
+        }
+      }
+      return state;
+    },
+  };
+
+  return source;
+};
+
+export const playbackSource = createPlaybackSource();
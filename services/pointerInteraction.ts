@@ -0,0 +1,112 @@
+import { TreeSketchHooks } from "./treeSketch";
+
+// Mouse / touch on the canvas, turned into sketch hook calls:
+// - tap near a branch tip: that part of the tree blooms
+// - press on a branch and drag: bends it, springs back on release
+// - fast swipe anywhere else: wind in the swipe direction
+// Taps that hit a branch don't reach the page's click handler, so the
+// click input source only reacts to taps on empty sky.
+
+const TAP_MAX_MOVE = 10; // px
+const TAP_MAX_MS = 300;
+const SWIPE_MIN_SPEED = 0.5; // px per ms
+const SWIPE_FORCE = 0.6; // Wind per px/ms of horizontal speed
+
+export const attachPointerInteraction = (
+  element: HTMLElement,
+  getHooks: () => TreeSketchHooks | null
+): (() => void) => {
+  let pointerId: number | null = null;
+  let startX = 0;
+  let startY = 0;
+  let startTime = 0;
+  let lastX = 0;
+  let lastTime = 0;
+  let dragging = false;
+  let consumeClick = false;
+
+  const toCanvas = (e: PointerEvent) => {
+    const rect = (getHooks()?.getCanvas() ?? element).getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const onDown = (e: PointerEvent) => {
+    if (pointerId !== null) return; // Single pointer only
+    const hooks = getHooks();
+    if (!hooks) return;
+    pointerId = e.pointerId;
+    const { x, y } = toCanvas(e);
+    startX = lastX = x;
+    startY = y;
+    startTime = lastTime = e.timeStamp;
+    dragging = hooks.grabBranch(x, y);
+    consumeClick = false;
+    element.setPointerCapture(e.pointerId);
+  };
+
+  const onMove = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return;
+    const { x, y } = toCanvas(e);
+    if (dragging) {
+      getHooks()?.dragBranch(x, y);
+    } else {
+      // Horizontal speed of this move, a swipe once it is fast enough
+      const dt = Math.max(e.timeStamp - lastTime, 1);
+      const speed = (x - lastX) / dt;
+      if (Math.abs(speed) > SWIPE_MIN_SPEED) {
+        getHooks()?.swipe(speed * SWIPE_FORCE * (dt / 16));
+        consumeClick = true;
+      }
+    }
+    lastX = x;
+    lastTime = e.timeStamp;
+  };
+
+  const onUp = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return;
+    pointerId = null;
+    const hooks = getHooks();
+    if (!hooks) return;
+
+    const { x, y } = toCanvas(e);
+    const moved = Math.hypot(x - startX, y - startY);
+    const isTap = moved < TAP_MAX_MOVE && e.timeStamp - startTime < TAP_MAX_MS;
+
+    if (dragging) {
+      hooks.releaseBranch();
+      dragging = false;
+      // A short press on a branch is a tap, not a drag
+      consumeClick = isTap ? hooks.touchBranch(x, y) : true;
+    } else if (isTap) {
+      consumeClick = consumeClick || hooks.touchBranch(x, y);
+    }
+  };
+
+  const onCancel = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return;
+    pointerId = null;
+    if (dragging) getHooks()?.releaseBranch();
+    dragging = false;
+  };
+
+  const onClick = (e: MouseEvent) => {
+    if (consumeClick) {
+      e.stopPropagation();
+      consumeClick = false;
+    }
+  };
+
+  element.addEventListener("pointerdown", onDown);
+  element.addEventListener("pointermove", onMove);
+  element.addEventListener("pointerup", onUp);
+  element.addEventListener("pointercancel", onCancel);
+  element.addEventListener("click", onClick);
+
+  return () => {
+    element.removeEventListener("pointerdown", onDown);
+    element.removeEventListener("pointermove", onMove);
+    element.removeEventListener("pointerup", onUp);
+    element.removeEventListener("pointercancel", onCancel);
+    element.removeEventListener("click", onClick);
+  };
+};
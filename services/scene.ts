@@ -0,0 +1,144 @@
+import { Scene, SceneTree } from "../types";
+import { loadJSON, saveJSON } from "./storage";
+import { listTreeSpecies } from "./treeSpecies";
+import { listFlowerSpecies } from "./flowerSpecies";
+
+// Scene documents: which trees stand where. The three original layouts ship
+// as built-in presets, users can compose their own in the scene editor,
+// save them by name and share them as JSON files.
+
+export const SCENE_FORMAT = "smile-tree-scene";
+export const MAX_SCENE_TREES = 16;
+
+export const SCENE_PRESETS: Scene[] = [
+  {
+    id: 'single',
+    name: "一棵树",
+    trees: [{ x: 0.5, y: 1, scale: 1, seed: 1234 }],
+  },
+  {
+    id: 'pair',
+    name: "两棵树",
+    trees: [
+      { x: 0.3, y: 1, scale: 0.75, seed: 2222 },
+      { x: 0.7, y: 1, scale: 0.75, seed: 3333 },
+    ],
+  },
+  {
+    id: 'forest',
+    name: "森林",
+    // Three layers: a hazy far row on the hills, a middle row and a few
+    // large trees up front. Seeds step by a chaotic multiplier for varied shapes.
+    trees: [
+      { x: 0.08, y: 0.78, scale: 0.2, seed: 5555, depth: 0.85 },
+      { x: 0.34, y: 0.76, scale: 0.22, seed: 6492, depth: 0.85 },
+      { x: 0.63, y: 0.79, scale: 0.19, seed: 7429, depth: 0.85 },
+      { x: 0.9, y: 0.77, scale: 0.21, seed: 8366, depth: 0.85 },
+      { x: 0.2, y: 0.88, scale: 0.3, seed: 9303, depth: 0.45 },
+      { x: 0.48, y: 0.9, scale: 0.33, seed: 10240, depth: 0.45 },
+      { x: 0.76, y: 0.87, scale: 0.29, seed: 11177, depth: 0.45 },
+      { x: 0.06, y: 1, scale: 0.46, seed: 12114, depth: 0 },
+      { x: 0.6, y: 1, scale: 0.42, seed: 13051, depth: 0 },
+      { x: 0.95, y: 1, scale: 0.48, seed: 13988, depth: 0 },
+    ],
+  },
+];
+
+export const DEFAULT_SCENE_ID = 'single';
+
+// Settings and recordings from before scenes stored 1 / 2 / 3
+const LEGACY_SCENE_MODES: Record<number, string> = { 1: 'single', 2: 'pair', 3: 'forest' };
+
+export const sceneIdForMode = (mode: number): string => LEGACY_SCENE_MODES[mode] ?? DEFAULT_SCENE_ID;
+
+export const isPresetScene = (id: string) => SCENE_PRESETS.some(scene => scene.id === id);
+
+// --- Saved Scenes ---
+
+const STORAGE_KEY = "scenes";
+
+// Storage may hold scenes from older versions or hand edits, they get the
+// same checks as imported ones. Ones beyond repair are left out.
+const loadSavedScenes = (): Scene[] => {
+  const stored = loadJSON<unknown>(STORAGE_KEY, []);
+  if (!Array.isArray(stored)) return [];
+  const scenes: Scene[] = [];
+  for (const data of stored) {
+    try {
+      scenes.push(normalizeScene(data));
+    } catch (error) {
+      console.warn("Skipping broken saved scene:", error);
+    }
+  }
+  return scenes;
+};
+
+export const listScenes = (): Scene[] => [...SCENE_PRESETS, ...loadSavedScenes()];
+
+export const getScene = (id: string): Scene | undefined => listScenes().find(scene => scene.id === id);
+
+// Presets can't be overwritten, saving one stores a copy under a new id
+export const saveScene = (scene: Scene): Scene => {
+  const saved = isPresetScene(scene.id) ? { ...scene, id: createSceneId() } : scene;
+  const others = loadSavedScenes().filter(existing => existing.id !== saved.id);
+  saveJSON(STORAGE_KEY, [...others, saved]);
+  return saved;
+};
+
+export const deleteScene = (id: string) => {
+  saveJSON(STORAGE_KEY, loadSavedScenes().filter(scene => scene.id !== id));
+};
+
+export const createSceneId = () => `scene-${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`;
+
+export const randomSeed = () => Math.floor(Math.random() * 100000);
+
+// --- Sharing ---
+
+export const serializeScene = (scene: Scene): string =>
+  JSON.stringify({ format: SCENE_FORMAT, name: scene.name, trees: scene.trees }, null, 2);
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeTree = (tree: unknown): SceneTree => {
+  const { x, y, scale, seed, depth, species, flowerStyle } = isObject(tree) ? tree : {};
+  return {
+    x: clamp(x, 0, 1, 0.5),
+    y: clamp(y, 0, 1, 1),
+    scale: clamp(scale, 0.1, 1.5, 1),
+    seed: Math.round(clamp(seed, 0, 2 ** 31, randomSeed())),
+    ...(typeof depth === 'number' ? { depth: clamp(depth, 0, 1, 0) } : {}),
+    // Unknown species follow the selection, like trees without one
+    ...(typeof species === 'string' && listTreeSpecies().some(rules => rules.id === species) ? { species } : {}),
+    ...(typeof flowerStyle === 'string' && listFlowerSpecies().some(flower => flower.id === flowerStyle)
+      ? { flowerStyle }
+      : {}),
+  };
+};
+
+// Anything claiming to be a scene (files, recordings) goes through here:
+// values are clamped, broken ones replaced and the tree count capped
+export const normalizeScene = (data: unknown): Scene => {
+  if (!isObject(data) || !Array.isArray(data.trees) || data.trees.length === 0) {
+    throw new Error("Scene has no trees");
+  }
+  const { id, name, trees } = data;
+  return {
+    id: typeof id === 'string' && id ? id : createSceneId(),
+    name: typeof name === 'string' && name ? name : "导入的场景",
+    trees: trees.slice(0, MAX_SCENE_TREES).map(normalizeTree),
+  };
+};
+
+// Imported scenes always get a fresh id so they never replace a saved one
+export const parseScene = (text: string): Scene => {
+  const data: unknown = JSON.parse(text);
+  if (!isObject(data) || data.format !== SCENE_FORMAT) {
+    throw new Error("Not a Smile Tree scene file");
+  }
+  return { ...normalizeScene(data), id: createSceneId() };
+};
@@ -0,0 +1,187 @@
+import { FaceMood, FlowerStyle, Scene, TreeState } from "../types";
+import { getScene, normalizeScene, sceneIdForMode } from "./scene";
+import { knownFlowerStyle } from "./flowerSpecies";
+
+// Portable recording of everything that drove the sketch, used to reproduce
+// odd behaviour reports and to demo without a camera.
+//
+// On disk it is NDJSON: one header line followed by one event per line.
+//   {"format":"smile-tree-session","version":2,"startedAt":"…","flowerStyle":"peach","scene":{…}}
+//   {"t":0,"type":"state","mood":-1,"wind":0}
+//   {"t":33,"type":"state","mood":0.2,"wind":0.1,"sensed":true,"filtered":true}
+//   {"t":1520,"type":"flowerStyle","value":"sakura"}
+// A single JSON object ({...header, "events": [...]}) is accepted on import too.
+// Scenes are stored whole so custom scenes replay without the library.
+// Version 1 files (numeric "sceneMode") are read as the matching preset.
+
+export const SESSION_FORMAT = "smile-tree-session";
+export const SESSION_VERSION = 2;
+
+export interface SessionHeader {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  startedAt: string; // ISO timestamp
+  flowerStyle: FlowerStyle;
+  scene: Scene;
+}
+
+export type SessionEvent =
+  | { t: number; type: 'state'; mood: number; wind: number; people?: TreeState['people']; sensed?: true; filtered?: true }
+  | { t: number; type: 'flowerStyle'; value: FlowerStyle }
+  | { t: number; type: 'scene'; value: Scene };
+
+export interface RecordedSession {
+  header: SessionHeader;
+  events: SessionEvent[]; // Sorted by t (ms since start)
+}
+
+// The sketch runs at 30fps, sampling faster only bloats the file
+const STATE_INTERVAL_MS = 1000 / 30;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export const createSessionRecorder = (flowerStyle: FlowerStyle, scene: Scene, now: number) => {
+  const startTime = now;
+  let lastStateTime = -Infinity;
+  const session: RecordedSession = {
+    header: {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      startedAt: new Date().toISOString(),
+      flowerStyle,
+      scene,
+    },
+    events: [],
+  };
+
+  return {
+    recordState: (now: number, state: TreeState) => {
+      if (now - lastStateTime < STATE_INTERVAL_MS) return;
+      lastStateTime = now;
+      const event: SessionEvent = {
+        t: Math.round(now - startTime),
+        type: 'state',
+        mood: round(state.mood),
+        wind: round(state.windForce),
+      };
+      if (state.people && state.people.length > 0) {
+        event.people = state.people.map(person => ({ moodScore: round(person.moodScore), x: round(person.x) }));
+      }
+      if (state.moodSensed) event.sensed = true;
+      if (state.moodFiltered) event.filtered = true;
+      session.events.push(event);
+    },
+    recordFlowerStyle: (now: number, value: FlowerStyle) => {
+      session.events.push({ t: Math.round(now - startTime), type: 'flowerStyle', value });
+    },
+    recordScene: (now: number, value: Scene) => {
+      session.events.push({ t: Math.round(now - startTime), type: 'scene', value });
+    },
+    finish: (): RecordedSession => session,
+  };
+};
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>;
+
+export const serializeSession = (session: RecordedSession): string =>
+  [session.header, ...session.events].map(line => JSON.stringify(line)).join("\n") + "\n";
+
+// Version 1 stored the preset number
+const legacyScene = (mode: unknown): Scene => getScene(sceneIdForMode(Number(mode)))!;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFaceMood = (value: unknown): value is FaceMood =>
+  isObject(value) && typeof value.moodScore === 'number' && typeof value.x === 'number';
+
+const validateHeader = (header: unknown): SessionHeader => {
+  if (!isObject(header) || header.format !== SESSION_FORMAT) {
+    throw new Error("Not a Smile Tree session file");
+  }
+  const { version, startedAt, flowerStyle } = header;
+  if (typeof version !== 'number' || version > SESSION_VERSION) {
+    throw new Error(`Unsupported session version: ${version}`);
+  }
+  if (typeof flowerStyle !== 'string') {
+    throw new Error("Session has no flower style");
+  }
+  return {
+    format: SESSION_FORMAT,
+    version,
+    startedAt: typeof startedAt === 'string' ? startedAt : "",
+    flowerStyle: knownFlowerStyle(flowerStyle),
+    scene: version < 2 ? legacyScene(header.sceneMode) : normalizeScene(header.scene),
+  };
+};
+
+const validateEvent = (event: unknown, index: number): SessionEvent => {
+  if (!isObject(event) || typeof event.t !== 'number') {
+    throw new Error(`Invalid session event at index ${index}`);
+  }
+  const { t, value } = event;
+  switch (event.type) {
+    case 'state': {
+      const { mood, wind, people } = event;
+      if (typeof mood !== 'number' || typeof wind !== 'number') {
+        throw new Error(`Invalid state event at index ${index}`);
+      }
+      const state: SessionEvent = { t, type: 'state', mood, wind };
+      if (Array.isArray(people)) {
+        state.people = people.filter(isFaceMood).map(({ moodScore, x }) => ({ moodScore, x }));
+      }
+      if (event.sensed === true) state.sensed = true;
+      if (event.filtered === true) state.filtered = true;
+      return state;
+    }
+    case 'flowerStyle':
+      if (typeof value !== 'string') {
+        throw new Error(`Invalid flower style event at index ${index}`);
+      }
+      return { t, type: 'flowerStyle', value: knownFlowerStyle(value) };
+    case 'scene':
+      try {
+        return { t, type: 'scene', value: normalizeScene(value) };
+      } catch {
+        throw new Error(`Invalid scene event at index ${index}`);
+      }
+    case 'sceneMode':
+      return { t, type: 'scene', value: legacyScene(value) };
+    default:
+      throw new Error(`Unknown session event type "${event.type}" at index ${index}`);
+  }
+};
+
+export const parseSession = (text: string): RecordedSession => {
+  const trimmed = text.trim();
+  let header: unknown;
+  let events: unknown[];
+
+  // Whole-file JSON first, then NDJSON
+  let whole: unknown = null;
+  try {
+    whole = JSON.parse(trimmed);
+  } catch {
+    whole = null;
+  }
+
+  if (isObject(whole) && Array.isArray(whole.events)) {
+    const { events: list, ...rest } = whole;
+    header = rest;
+    events = list;
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length === 0) throw new Error("Session file is empty");
+    header = JSON.parse(lines[0]);
+    events = lines.slice(1).map(line => JSON.parse(line));
+  }
+
+  return {
+    header: validateHeader(header),
+    events: events
+      .map(validateEvent)
+      .sort((a, b) => a.t - b.t),
+  };
+};
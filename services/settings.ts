@@ -0,0 +1,157 @@
+import { FlowerStyle } from "../types";
+import { loadJSON, saveJSON } from "./storage";
+import { DEFAULT_FLOWER_SPECIES } from "./flowerSpecies";
+import { DEFAULT_TREE_SPECIES } from "./treeSpecies";
+import { DEFAULT_ENVIRONMENT_SETTINGS, EnvironmentSettings, SEASON_NAMES, TIME_OF_DAY_NAMES } from "./environment";
+import { WEATHER_NAMES, WeatherSetting } from "./weather";
+import { QUALITY_SETTING_NAMES, QualitySetting } from "./performanceGovernor";
+import { DEFAULT_INFERENCE_FPS } from "./visionService";
+import { DEFAULT_SCENE_ID, sceneIdForMode } from "./scene";
+
+// User preferences: the last-used choices (restored on load) and the
+// tunables from the settings panel. One persisted object, read by whoever
+// needs a value; changes are pushed to subscribers.
+
+export interface Settings {
+  // Last-used choices
+  flowerStyle: FlowerStyle;
+  sceneId: string; // Preset or saved scene
+  treeSpecies: string;
+  interactionMode: string;
+  weather: WeatherSetting;
+  environment: EnvironmentSettings;
+  // Input tuning
+  clickBoost: number; // Mood added per click
+  moodDecay: number; // Mood lost per frame after a click
+  windStrength: number; // Multiplier on every source's wind
+  foreverSpeed: number; // Speed of the forever-mode bloom cycle
+  inferenceFps: number; // Vision inference rate
+  // Performance budget
+  frameRate: number;
+  maxParticles: number;
+  particleRate: number; // Multiplier on petal / leaf spawn chances
+  quality: QualitySetting; // Render detail, 'auto' follows the measured frame time
+  // Re-enter a camera / microphone mode when a tab opens
+  resumeCapture: boolean;
+}
+
+const STORAGE_KEY = "settings";
+
+export const DEFAULT_SETTINGS: Settings = {
+  flowerStyle: DEFAULT_FLOWER_SPECIES,
+  sceneId: DEFAULT_SCENE_ID,
+  treeSpecies: DEFAULT_TREE_SPECIES,
+  interactionMode: 'click',
+  weather: 'auto',
+  environment: DEFAULT_ENVIRONMENT_SETTINGS,
+  clickBoost: 0.7,
+  moodDecay: 0.0015,
+  windStrength: 1,
+  foreverSpeed: 1,
+  inferenceFps: DEFAULT_INFERENCE_FPS,
+  frameRate: 30,
+  maxParticles: 400,
+  particleRate: 1,
+  quality: 'auto',
+  resumeCapture: false,
+};
+
+export type NumericSetting = {
+  [K in keyof Settings]: Settings[K] extends number ? K : never
+}[keyof Settings];
+
+// Valid values, also the slider ranges in the settings panel
+export const SETTING_RANGES: Record<NumericSetting, { min: number; max: number }> = {
+  clickBoost: { min: 0.1, max: 1.5 },
+  moodDecay: { min: 0.0005, max: 0.005 },
+  windStrength: { min: 0, max: 2 },
+  foreverSpeed: { min: 0.25, max: 3 },
+  inferenceFps: { min: 5, max: 30 },
+  frameRate: { min: 15, max: 60 },
+  maxParticles: { min: 100, max: 1000 },
+  particleRate: { min: 0, max: 3 },
+};
+
+type Listener = (settings: Settings) => void;
+
+// Loaded on first use, storage is only ready once the App starts
+let settings: Settings | null = null;
+const listeners = new Set<Listener>();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isKeyOf = <T extends string>(names: Record<T, string>, value: unknown): value is T =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(names, value);
+
+const text = (value: unknown, fallback: string) => (typeof value === 'string' && value ? value : fallback);
+
+// Whatever storage holds (older versions, hand edits) is checked field by
+// field; anything missing or invalid falls back to its default
+const normalizeSettings = (stored: unknown): Settings => {
+  const data = isObject(stored) ? stored : {};
+  const environment = isObject(data.environment) ? data.environment : {};
+  const { season, timeOfDay } = environment;
+
+  const numbers = {} as Record<NumericSetting, number>;
+  for (const key of Object.keys(SETTING_RANGES) as NumericSetting[]) {
+    const value = data[key];
+    const { min, max } = SETTING_RANGES[key];
+    numbers[key] = typeof value === 'number' && Number.isFinite(value)
+      ? Math.min(Math.max(value, min), max)
+      : DEFAULT_SETTINGS[key];
+  }
+
+  return {
+    ...numbers,
+    flowerStyle: text(data.flowerStyle, DEFAULT_SETTINGS.flowerStyle),
+    // Scenes used to be stored as 1 / 2 / 3
+    sceneId: text(data.sceneId, typeof data.sceneMode === 'number' ? sceneIdForMode(data.sceneMode) : DEFAULT_SCENE_ID),
+    treeSpecies: text(data.treeSpecies, DEFAULT_SETTINGS.treeSpecies),
+    interactionMode: text(data.interactionMode, DEFAULT_SETTINGS.interactionMode),
+    weather: isKeyOf(WEATHER_NAMES, data.weather) ? data.weather : DEFAULT_SETTINGS.weather,
+    environment: {
+      season: season === 'auto' || isKeyOf(SEASON_NAMES, season) ? season : DEFAULT_ENVIRONMENT_SETTINGS.season,
+      timeOfDay: timeOfDay === 'auto' || isKeyOf(TIME_OF_DAY_NAMES, timeOfDay) ? timeOfDay : DEFAULT_ENVIRONMENT_SETTINGS.timeOfDay,
+    },
+    quality: isKeyOf(QUALITY_SETTING_NAMES, data.quality) ? data.quality : DEFAULT_SETTINGS.quality,
+    resumeCapture: typeof data.resumeCapture === 'boolean' ? data.resumeCapture : DEFAULT_SETTINGS.resumeCapture,
+  };
+};
+
+export const getSettings = (): Settings => {
+  if (!settings) {
+    settings = normalizeSettings(loadJSON<unknown>(STORAGE_KEY, {}));
+  }
+  return settings;
+};
+
+const publish = (next: Settings) => {
+  settings = next;
+  listeners.forEach(listener => listener(next));
+};
+
+export const updateSettings = (changes: Partial<Settings>) => {
+  const next = { ...getSettings(), ...changes };
+  saveJSON(STORAGE_KEY, next);
+  publish(next);
+};
+
+// Tunables only, the last-used choices are kept
+export const resetTunables = () => {
+  const current = getSettings();
+  updateSettings({
+    ...DEFAULT_SETTINGS,
+    flowerStyle: current.flowerStyle,
+    sceneId: current.sceneId,
+    treeSpecies: current.treeSpecies,
+    interactionMode: current.interactionMode,
+    weather: current.weather,
+    environment: current.environment,
+  });
+};
+
+export const subscribeSettings = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
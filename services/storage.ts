@@ -0,0 +1,97 @@
+// Small JSON key/value store. All keys share one prefix so the New Tab page
+// doesn't collide with anything else on the origin.
+//
+// Inside the extension it is backed by chrome.storage.local, on the web by
+// localStorage. chrome.storage is async, so everything is read into a cache
+// once at startup (initStorage, awaited before the App renders) and the
+// load/save calls below stay synchronous. Writes from other tabs are
+// mirrored into the cache as they happen.
+const PREFIX = "smileTree.";
+
+// The bits of the chrome.storage API used here
+interface ChromeStorageArea {
+  get: (keys: null) => Promise<Record<string, unknown>>;
+  set: (items: Record<string, unknown>) => Promise<void>;
+  remove: (keys: string) => Promise<void>;
+}
+
+interface ChromeStorageChange {
+  newValue?: unknown;
+}
+
+interface ChromeStorage {
+  local?: ChromeStorageArea;
+  onChanged?: {
+    addListener: (listener: (changes: Record<string, ChromeStorageChange>, areaName: string) => void) => void;
+  };
+}
+
+const chromeApi = (globalThis as { chrome?: { storage?: ChromeStorage } }).chrome?.storage;
+const chromeStorage = chromeApi?.local;
+
+// Parsed values, only used with chrome.storage
+const cache = new Map<string, unknown>();
+
+export const initStorage = async () => {
+  if (!chromeStorage) return;
+  chromeApi?.onChanged?.addListener((changes, areaName) => {
+    if (areaName !== "local") return;
+    for (const [key, change] of Object.entries(changes)) {
+      if (!key.startsWith(PREFIX)) continue;
+      if (change.newValue === undefined) cache.delete(key);
+      else cache.set(key, change.newValue);
+    }
+  });
+  try {
+    const items = await chromeStorage.get(null);
+    for (const [key, value] of Object.entries(items)) {
+      if (key.startsWith(PREFIX)) cache.set(key, value);
+    }
+  } catch (error) {
+    console.warn("Failed to read chrome.storage:", error);
+  }
+};
+
+export const loadJSON = <T>(key: string, fallback: T): T => {
+  try {
+    if (chromeStorage) {
+      return cache.has(PREFIX + key) ? (cache.get(PREFIX + key) as T) : fallback;
+    }
+    const raw = localStorage.getItem(PREFIX + key);
+    if (raw === null) return fallback;
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`Failed to read "${key}" from storage:`, error);
+    return fallback;
+  }
+};
+
+export const saveJSON = (key: string, value: unknown) => {
+  try {
+    if (chromeStorage) {
+      // Round-trip through JSON so the cache holds what a reload would read
+      const stored = JSON.parse(JSON.stringify(value));
+      cache.set(PREFIX + key, stored);
+      chromeStorage.set({ [PREFIX + key]: stored })
+        .catch(error => console.warn(`Failed to write "${key}" to storage:`, error));
+      return;
+    }
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Failed to write "${key}" to storage:`, error);
+  }
+};
+
+export const removeItem = (key: string) => {
+  try {
+    if (chromeStorage) {
+      cache.delete(PREFIX + key);
+      chromeStorage.remove(PREFIX + key)
+        .catch(error => console.warn(`Failed to remove "${key}" from storage:`, error));
+      return;
+    }
+    localStorage.removeItem(PREFIX + key);
+  } catch (error) {
+    console.warn(`Failed to remove "${key}" from storage:`, error);
+  }
+};
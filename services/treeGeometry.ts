@@ -0,0 +1,147 @@
+// Flattened tree skeletons. The baked Branch tree is copied into parallel
+// typed arrays in depth-first order, so a parent always comes before its
+// children: posing the tree for a frame is one forward pass over the arrays
+// and drawing needs no push/rotate/translate stack.
+
+// Baked skeleton as built by the sketch, only len / thick of the trunk are set
+export interface Branch {
+  len: number;
+  thick: number;
+  depth: number;
+  angleOffset: number;
+  children: Branch[];
+  noiseThreshold: number;
+  hasFlower: boolean;
+  lenMult: number;
+  thickMult: number; // Thickness of children relative to this branch
+}
+
+export interface FlatTree {
+  count: number;
+  // Skeleton, fixed once flattened
+  parent: Int32Array; // -1 for the trunk
+  depth: Uint8Array;
+  angleOffset: Float32Array;
+  len: Float32Array; // px, already scaled
+  thick: Float32Array; // px, already scaled
+  noiseThreshold: Float32Array;
+  hasFlower: Uint8Array;
+  // Interaction state
+  boost: Float32Array; // Local bloom added to the tree mood, fades out
+  boostAt: Float64Array; // millis of the last touch
+  bend: Float32Array; // Extra angle from dragging
+  bendVel: Float32Array;
+  glow: Float32Array; // Local bloom inherited from touched ancestors, per frame
+  // Pose, rewritten every frame (world coordinates)
+  visible: Uint8Array;
+  angle: Float32Array; // Absolute angle, 0 = straight up
+  x0: Float32Array;
+  y0: Float32Array;
+  x1: Float32Array; // Tip
+  y1: Float32Array;
+}
+
+export const flattenTree = (root: Branch, scale: number): FlatTree => {
+  let count = 0;
+  const countBranches = (branch: Branch) => {
+    count++;
+    branch.children.forEach(countBranches);
+  };
+  countBranches(root);
+
+  const tree: FlatTree = {
+    count,
+    parent: new Int32Array(count),
+    depth: new Uint8Array(count),
+    angleOffset: new Float32Array(count),
+    len: new Float32Array(count),
+    thick: new Float32Array(count),
+    noiseThreshold: new Float32Array(count),
+    hasFlower: new Uint8Array(count),
+    boost: new Float32Array(count),
+    boostAt: new Float64Array(count),
+    bend: new Float32Array(count),
+    bendVel: new Float32Array(count),
+    glow: new Float32Array(count),
+    visible: new Uint8Array(count),
+    angle: new Float32Array(count),
+    x0: new Float32Array(count),
+    y0: new Float32Array(count),
+    x1: new Float32Array(count),
+    y1: new Float32Array(count),
+  };
+
+  // Same length / thickness chain the recursive renderer used
+  let next = 0;
+  const visit = (branch: Branch, parent: number, len: number, thick: number) => {
+    const i = next++;
+    tree.parent[i] = parent;
+    tree.depth[i] = branch.depth;
+    tree.angleOffset[i] = branch.angleOffset;
+    tree.len[i] = len;
+    tree.thick[i] = thick;
+    tree.noiseThreshold[i] = branch.noiseThreshold;
+    tree.hasFlower[i] = branch.hasFlower ? 1 : 0;
+    for (const child of branch.children) {
+      visit(child, i, len * child.lenMult, thick * branch.thickMult);
+    }
+  };
+  visit(root, -1, root.len * scale, root.thick * scale);
+  return tree;
+};
+
+export interface PoseParams {
+  maxDepth: number; // Deeper branches are hidden
+  windAngle: number;
+  shiver: number; // Gust flutter amplitude
+  shiverPhase: number;
+  droop: number; // Bend from rain / settled snow
+}
+
+// Outer branches bend more than the trunk
+const flexibility = (depth: number, maxDepth: number) => 0.05 + (depth / maxDepth) * 1.25;
+
+// Wind, gusts, droop and drag bend for the whole tree in one pass
+export const poseTree = (tree: FlatTree, x: number, y: number, params: PoseParams) => {
+  const { parent, depth, angleOffset, len, bend, visible, angle, x0, y0, x1, y1 } = tree;
+  const { maxDepth, windAngle, shiver, shiverPhase, droop } = params;
+
+  visible[0] = 1;
+  angle[0] = 0;
+  x0[0] = x;
+  y0[0] = y;
+  x1[0] = x;
+  y1[0] = y - len[0];
+
+  for (let i = 1; i < tree.count; i++) {
+    const p = parent[i];
+    // Children of the last level (or of tiny twigs) aren't drawn
+    if (!visible[p] || depth[p] >= maxDepth || len[p] < 4) {
+      visible[i] = 0;
+      continue;
+    }
+    visible[i] = 1;
+
+    const flex = flexibility(depth[p], maxDepth);
+    const flutter = shiver * flex * Math.sin(shiverPhase + depth[p]);
+    const sag = Math.sign(Math.sin(angle[p] + angleOffset[i])) * droop * flex;
+    const a = angle[p] + angleOffset[i] + windAngle * flex + flutter + sag + bend[i];
+
+    angle[i] = a;
+    x0[i] = x1[p];
+    y0[i] = y1[p];
+    x1[i] = x1[p] + Math.sin(a) * len[i];
+    y1[i] = y1[p] - Math.cos(a) * len[i];
+  }
+};
+
+// Climbs `levels` towards the trunk, but never onto it
+export const ancestorOf = (tree: FlatTree, index: number, levels: number): number => {
+  let current = index;
+  for (let i = 0; i < levels; i++) {
+    const p = tree.parent[current];
+    if (p < 0 || tree.depth[p] === 0) break;
+    current = p;
+  }
+  return current;
+};
@@ -0,0 +1,173 @@
+import { loadJSON, saveJSON, removeItem } from "./storage";
+
+// Long-term growth: smiles accumulated over days make the tree taller,
+// deeper and denser with flowers, days without care let it thin out again.
+
+export interface GrowthState {
+  version: number;
+  createdAt: number; // epoch ms
+  lastTended: number; // epoch ms of the last smile that counted
+  neglectAppliedAt: number; // epoch ms up to which neglect is already in vitality
+  totalSmileSeconds: number; // Lifetime, only ever grows
+  vitality: number; // 0..1, current health, decays with neglect
+}
+
+// What the sketch needs to shape the tree
+export interface GrowthProfile {
+  extraDepth: number; // Added to the scene depth limit (-1..2)
+  heightScale: number; // Trunk length multiplier
+  flowerDensity: number; // Multiplier on the species flower chance
+  carpet: number; // 0..1, how long fallen petals last and how high they pile up
+}
+
+const STORAGE_KEY = "growth";
+const GROWTH_VERSION = 1;
+
+const SMILE_THRESHOLD = 0.3; // Mood that counts as smiling
+const VITALITY_PER_SMILE_SECOND = 0.002; // ~8 minutes of smiling from 0 to 1
+const NEGLECT_PER_DAY = 0.12; // Vitality lost per day without a smile
+const MATURITY_SECONDS = 3600; // Lifetime smiling for ~63% maturity
+const SAVE_INTERVAL_MS = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const NEUTRAL_GROWTH: GrowthProfile = { extraDepth: 0, heightScale: 1, flowerDensity: 1, carpet: 0 };
+
+const createGrowthState = (now: number): GrowthState => ({
+  version: GROWTH_VERSION,
+  createdAt: now,
+  lastTended: now,
+  neglectAppliedAt: now,
+  totalSmileSeconds: 0,
+  vitality: 0.5,
+});
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Neglect up to `now` that vitality doesn't contain yet, so a stretch of time
+// is only counted once however often the state is loaded and saved
+const applyNeglect = (state: GrowthState, now: number): GrowthState => {
+  if (now <= state.neglectAppliedAt) return state;
+  const days = (now - state.neglectAppliedAt) / DAY_MS;
+  return { ...state, neglectAppliedAt: now, vitality: clamp01(state.vitality - days * NEGLECT_PER_DAY) };
+};
+
+export const growthProfile = (state: GrowthState): GrowthProfile => {
+  const maturity = 1 - Math.exp(-state.totalSmileSeconds / MATURITY_SECONDS);
+  const sparse = state.vitality < 0.2 ? 1 : 0;
+  return {
+    extraDepth: Math.round(maturity * 2) - sparse,
+    // Quantized so the sketch only rebuilds on visible changes
+    heightScale: Math.round((0.85 + 0.35 * maturity) * 20) / 20,
+    flowerDensity: Math.round((0.4 + 0.8 * state.vitality) * 10) / 10,
+    carpet: Math.round(maturity * 20) / 20,
+  };
+};
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// Only the known fields, each clamped to what the tracker itself could produce
+const normalizeGrowthState = (data: Partial<Record<keyof GrowthState, unknown>>, now: number): GrowthState => {
+  const fresh = createGrowthState(now);
+  const lastTended = Math.min(finiteOr(data.lastTended, now), now);
+  return {
+    version: GROWTH_VERSION,
+    createdAt: Math.min(finiteOr(data.createdAt, lastTended), lastTended),
+    lastTended,
+    // Older states have none, their neglect was only ever counted from lastTended
+    neglectAppliedAt: Math.min(Math.max(finiteOr(data.neglectAppliedAt, lastTended), lastTended), now),
+    totalSmileSeconds: Math.max(0, finiteOr(data.totalSmileSeconds, 0)),
+    vitality: clamp01(finiteOr(data.vitality, fresh.vitality)),
+  };
+};
+
+export const parseGrowthState = (text: string): GrowthState => {
+  const data: unknown = JSON.parse(text);
+  if (
+    typeof data !== 'object' || data === null ||
+    !('totalSmileSeconds' in data && typeof data.totalSmileSeconds === 'number') ||
+    !('vitality' in data && typeof data.vitality === 'number') ||
+    !('lastTended' in data && typeof data.lastTended === 'number')
+  ) {
+    throw new Error("Not a Smile Tree growth file");
+  }
+  return normalizeGrowthState(data, Date.now());
+};
+
+export const createGrowthTracker = () => {
+  const loaded = loadJSON<GrowthState | null>(STORAGE_KEY, null);
+  let state = loaded ? applyNeglect(normalizeGrowthState(loaded, Date.now()), Date.now()) : createGrowthState(Date.now());
+  let profile = growthProfile(state);
+  let lastTick: number | null = null;
+  let lastSave = 0;
+  // Smiling since the last save, added onto whatever is stored by then
+  let unsavedSeconds = 0;
+  let unsavedVitality = 0;
+
+  // Re-reads storage first so two open tabs add up instead of overwriting
+  // each other
+  const save = () => {
+    const stored = loadJSON<GrowthState | null>(STORAGE_KEY, null);
+    if (stored) {
+      const base = applyNeglect(normalizeGrowthState(stored, Date.now()), state.neglectAppliedAt);
+      state = {
+        ...base,
+        lastTended: Math.max(base.lastTended, state.lastTended),
+        neglectAppliedAt: Math.max(base.neglectAppliedAt, state.neglectAppliedAt),
+        totalSmileSeconds: base.totalSmileSeconds + unsavedSeconds,
+        vitality: clamp01(base.vitality + unsavedVitality),
+      };
+      profile = growthProfile(state);
+    }
+    unsavedSeconds = 0;
+    unsavedVitality = 0;
+    saveJSON(STORAGE_KEY, state);
+  };
+
+  return {
+    // Called every frame. Only sources that tend the tree should pass a mood.
+    update: (now: number, mood: number | null) => {
+      const dt = lastTick === null ? 0 : Math.min((now - lastTick) / 1000, 1);
+      lastTick = now;
+
+      if (mood === null || mood < SMILE_THRESHOLD || dt === 0) return;
+
+      const gain = dt * mood * VITALITY_PER_SMILE_SECOND;
+      unsavedSeconds += dt;
+      unsavedVitality += gain;
+      state = {
+        ...state,
+        lastTended: Date.now(),
+        neglectAppliedAt: Date.now(),
+        totalSmileSeconds: state.totalSmileSeconds + dt,
+        vitality: clamp01(state.vitality + gain),
+      };
+      profile = growthProfile(state);
+
+      if (now - lastSave > SAVE_INTERVAL_MS) {
+        lastSave = now;
+        save();
+      }
+    },
+    getState: (): GrowthState => state,
+    getProfile: (): GrowthProfile => profile,
+    save,
+    reset: () => {
+      state = createGrowthState(Date.now());
+      profile = growthProfile(state);
+      unsavedSeconds = 0;
+      unsavedVitality = 0;
+      removeItem(STORAGE_KEY);
+    },
+    // Replaces what is stored instead of adding onto it
+    restore: (imported: GrowthState) => {
+      state = imported;
+      profile = growthProfile(state);
+      unsavedSeconds = 0;
+      unsavedVitality = 0;
+      saveJSON(STORAGE_KEY, state);
+    },
+  };
+};
+
+export type GrowthTracker = ReturnType<typeof createGrowthTracker>;
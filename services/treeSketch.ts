@@ -1,18 +1,119 @@
 import p5 from "p5";
-import { TreeState, FlowerStyle } from "../types";
+import { TreeState, FlowerStyle, Scene } from "../types";
+import { getFlowerSpecies, PetalShape, RGBA, tracePetal } from "./flowerSpecies";
+import { getTreeSpecies as getGrowthRules, TreeGrowthRules } from "./treeSpecies";
+import { GrowthProfile, NEUTRAL_GROWTH } from "./treeGrowth";
+import { CLASSIC_ENVIRONMENT, Environment } from "./environment";
+import { CLEAR_WEATHER, createWeather, WeatherConditions, WeatherSetting } from "./weather";
+import { ancestorOf, Branch, FlatTree, flattenTree, poseTree } from "./treeGeometry";
+import { createPerformanceGovernor, QUALITY_LEVELS, QualityLevel, QualitySetting } from "./performanceGovernor";
+import { createGroundLayer, SettledPetal } from "./groundLayer";
 
 export type TreeEventType = 'bloom' | 'wither';
 
+// One-shot actions the host can fire on a running sketch
+export interface TreeSketchHooks {
+  // Shake petals loose from blooming branches
+  burstPetals: (count?: number) => void;
+  // Instantly raise the mood, it settles back to the input over time
+  boostMood: (amount: number) => void;
+  // Damp the wind for a while
+  calmWind: (durationMs: number) => void;
+  getCanvas: () => HTMLCanvasElement | null;
+  // Pointer interaction, canvas pixel coordinates. The branch calls return
+  // false when nothing rendered last frame is close enough.
+  touchBranch: (x: number, y: number) => boolean; // Local bloom
+  grabBranch: (x: number, y: number) => boolean; // Start bending
+  dragBranch: (x: number, y: number) => void;
+  releaseBranch: () => void; // Springs back
+  swipe: (force: number) => void; // Signed directional wind impulse
+  // Pause the live loop and render `count` frames at a fixed 1/fps time
+  // step, awaiting `onFrame` after each one (frame export)
+  renderFrames: (
+    count: number,
+    fps: number,
+    onFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>
+  ) => Promise<void>;
+}
+
+// Time source for everything animated in the sketch
+export interface SketchClock {
+  millis: () => number;
+  frameCount: () => number;
+}
+
+export interface TreeSketchOptions {
+  // Defaults to p5's real time. Inject one to render at arbitrary speed.
+  clock?: SketchClock;
+  // Seeds p.random / p.noise so identical inputs give identical frames
+  seed?: number;
+  // Fixed canvas size instead of following the window
+  width?: number;
+  height?: number;
+  pixelDensity?: number;
+  // false = only draw on p.redraw() (headless rendering)
+  autoLoop?: boolean;
+}
+
+// Performance budget and feel, adjustable from the settings panel
+export interface SketchTuning {
+  frameRate: number;
+  maxParticles: number;
+  particleRate: number; // Multiplier on petal / leaf spawn chances
+  windStrength: number; // Multiplier on the input wind
+  quality: QualitySetting; // 'auto' adapts to measured frame times (live clock only)
+}
+
+export const DEFAULT_TUNING: SketchTuning = { frameRate: 30, maxParticles: 400, particleRate: 1, windStrength: 1, quality: 'auto' };
+
+// Live values the sketch polls every frame
+export interface SketchInputs {
+  getTreeState: () => TreeState;
+  getFlowerStyle: () => FlowerStyle;
+  getScene: () => Scene;
+  getTreeSpecies: () => string; // For scene trees without their own species
+  getGrowth?: () => GrowthProfile; // Long-term growth, neutral if omitted
+  getEnvironment?: () => Environment; // Season / time of day, classic spring dusk if omitted
+  getWeather?: () => WeatherSetting; // Mood-driven ('auto') if omitted
+  getTuning?: () => SketchTuning; // DEFAULT_TUNING if omitted
+}
+
 export const createSketch = (
-  getTreeState: () => TreeState,
-  getFlowerStyle: () => FlowerStyle,
-  getSceneMode: () => number
+  inputs: SketchInputs,
+  onHooks?: (hooks: TreeSketchHooks) => void,
+  options: TreeSketchOptions = {}
 ) => (p: p5) => {
-  let currentMood = 0; // smoothed mood
+  const { getTreeState, getFlowerStyle, getScene, getTreeSpecies } = inputs;
+  const getGrowth = inputs.getGrowth ?? (() => NEUTRAL_GROWTH);
+  const getEnvironment = inputs.getEnvironment ?? (() => CLASSIC_ENVIRONMENT);
+  const getWeather = inputs.getWeather ?? ((): WeatherSetting => 'auto');
+  const getTuning = inputs.getTuning ?? (() => DEFAULT_TUNING);
+
+  let currentMood = 0; // smoothed mood (aggregate, drives the background)
+  let moodBoost = 0; // Gesture boost on top of the input mood, fades out
   let currentWind = 0; // smoothed wind (signed)
-  let currentSceneMode = 0; // Tracker for mode changes
+  let currentScene: Scene | null = null; // Tracker for scene changes
+  let crowded = false; // 3+ trees: each sheds less and follows the nearest person
+  let layered = false; // Some trees stand further back, enables parallax
+  let parallax = 0; // Smoothed head offset from the center, -0.5 to 0.5
+  let currentTreeSpecies = ''; // Tracker for species changes
+  let currentGrowth: GrowthProfile = NEUTRAL_GROWTH; // Tracker for growth changes
+  let windCalmUntil = 0; // millis until which wind is damped
+  let canvasEl: HTMLCanvasElement | null = null;
+  const autoLoop = options.autoLoop ?? true;
+  // p5 draws once right after setup even with noLoop. Without the loop every
+  // frame is asked for with redraw, so that one would be a frame too many.
+  let skipSetupDraw = !autoLoop;
+
+  // Sketch time, swapped for a stepped clock while exporting frames
+  const realClock: SketchClock = {
+    millis: () => p.millis(),
+    frameCount: () => p.frameCount,
+  };
+  let clock: SketchClock = options.clock ?? realClock;
+  const millis = (): number => clock.millis();
 
-  // Particle system for falling leaves/flowers
+  // Particle system for falling leaves/flowers and weather
   interface Particle {
     pos: p5.Vector;
     vel: p5.Vector;
@@ -20,7 +121,7 @@ export const createSketch = (
     color: p5.Color;
     size: number;
     life: number; 
-    type: 'leaf' | 'flower';
+    type: 'leaf' | 'flower' | 'snow' | 'rain';
     angle: number;
     angleVel: number;
     flip: number;
@@ -28,127 +129,223 @@ export const createSketch = (
     swayPhase: number;
     swayFreq: number;
     swayAmp: number;
+    style?: FlowerStyle; // Species of 'flower' particles
   }
 
-  // Baked Tree Structure Interface
-  interface Branch {
-    len: number;
-    thick: number;
-    depth: number;
-    angleOffset: number; 
-    children: Branch[];
-    noiseThreshold: number; 
-    hasFlower: boolean;
-    lenMult: number; 
+  // A branch tip drawn last frame, for hit-testing
+  interface BranchHit {
+    tree: FlatTree;
+    index: number;
+    x: number;
+    y: number;
   }
 
   // A tree instance in the forest
   interface TreeInstance {
     xRatio: number; // 0 to 1 relative to width
+    yRatio: number; // 0 to 1 relative to height, the trunk base
     scale: number;
-    branch: Branch;
+    skeleton: FlatTree; // Flattened, scaled to the canvas
     seed: number;
+    mood: number; // smoothed, may differ per tree in group mode
+    species: string;
+    flowerStyle?: FlowerStyle; // Own flowers, the selected style if unset
+    depth: number; // 0 (front) to 1 (far back)
+    maxDepth: number; // Scene depth limit adjusted by the species
   }
   
   let particles: Particle[] = [];
   let forest: TreeInstance[] = [];
+  // World positions of flowers drawn this frame, burst source
+  let bloomTips: { x: number; y: number; scale: number; style: FlowerStyle }[] = [];
+  let grabbed: { tree: FlatTree; index: number; x: number; y: number } | null = null;
+  let swipeWind = 0;
   
-  // Configuration
-  const MAX_PARTICLES = 400; 
+  // Configuration, follows the tuning and the performance governor
+  let tuning: SketchTuning = DEFAULT_TUNING;
+  let appliedFrameRate = 0;
+  const governor = createPerformanceGovernor();
+  let quality: QualityLevel = QUALITY_LEVELS[0];
+  let particleBudget = DEFAULT_TUNING.maxParticles;
+
+  // Depth limit by tree count (3 = three or more), fewer levels the more trees there are
+  const SCENE_DEPTH_LIMITS: Record<number, number> = { 1: 9, 2: 8, 3: 7 };
+  const HIT_RADIUS = 40; // px around a tip that counts as touching it
+  const LOCAL_BLOOM_MS = 8000; // How long a touched branch stays in bloom
+  const SNOW_LEVELS = 4; // Snow cover opacity steps, one stroke each per depth
+  // Depth layers, all at depth 1 (the farthest)
+  const HAZE = 0.6; // Tint towards the horizon colour
+  const FAR_FADE = 0.3; // Opacity lost
+  const FAR_CALM = 0.6; // Share of the sway lost
+  const PARALLAX = 0.06; // Front layer shift in canvas widths, per unit of head movement
+  const GROUND_SHARE = 1.5; // Settled petals allowed per particle of the budget
+  const GROUND_FADE_STEPS = 4; // Opacity steps of the fallen petals, one fill each per colour
   
-  // Palette variables
+  // Palette variables, follow the environment (season + light)
   let COL_TRUNK_DORMANT: p5.Color;
   let COL_TRUNK_THRIVE: p5.Color;
   let COL_LEAF_TENDER: p5.Color;
-  let COL_FLOWER_PINK: p5.Color;
+  let COL_HAZE: p5.Color; // Horizon, far trees fade into it
+  let env: Environment = CLASSIC_ENVIRONMENT;
+  let paletteEnv: Environment | null = null;
+
+  const weather = createWeather();
+  let conditions: WeatherConditions = CLEAR_WEATHER;
+  let gustShiver = 0; // Per-frame flutter from gusts
+  let branchDroop = 0; // Per-frame bend from rain / settled snow
+
+  // Fallen petals and leaves, they pile up while the tree blooms
+  const ground = createGroundLayer();
+
+  onHooks?.({
+    burstPetals: (count = 40) => {
+      for (let i = 0; i < count; i++) {
+        const tip = bloomTips.length > 0
+          ? bloomTips[Math.floor(p.random(bloomTips.length))]
+          : { x: p.random(p.width * 0.2, p.width * 0.8), y: p.height * 0.4, scale: 1, style: getFlowerStyle() };
+        const part = spawnFallingParticle(tip.x, tip.y, tip.scale, 'flower', tip.style);
+        if (part) {
+          // Kick outwards and slightly up before gravity takes over
+          part.vel.add(p.random(-4, 4), p.random(-5, -1));
+        }
+      }
+    },
+    boostMood: (amount) => {
+      moodBoost = Math.min(moodBoost + amount, 1);
+    },
+    calmWind: (durationMs) => {
+      windCalmUntil = millis() + durationMs;
+    },
+    getCanvas: () => canvasEl,
+    touchBranch: (x, y) => {
+      const hit = findBranch(x, y);
+      if (!hit) return false;
+      // Bloom the whole twig cluster around the touched tip
+      const cluster = ancestorOf(hit.tree, hit.index, 2);
+      hit.tree.boost[cluster] = 1;
+      hit.tree.boostAt[cluster] = millis();
+      for (let i = 0; i < 6; i++) {
+        const part = spawnFallingParticle(hit.x, hit.y, 1, 'flower');
+        if (part) part.vel.add(p.random(-2, 2), p.random(-3, 0));
+      }
+      return true;
+    },
+    grabBranch: (x, y) => {
+      const hit = findBranch(x, y);
+      if (!hit) return false;
+      // A twig barely moves, take the limb it grows on
+      grabbed = { tree: hit.tree, index: ancestorOf(hit.tree, hit.index, 1), x, y };
+      return true;
+    },
+    dragBranch: (x, y) => {
+      if (grabbed) {
+        grabbed.x = x;
+        grabbed.y = y;
+      }
+    },
+    releaseBranch: () => {
+      grabbed = null;
+    },
+    swipe: (force) => {
+      swipeWind = p.constrain(swipeWind + force, -2, 2);
+    },
+    renderFrames: async (count, fps, onFrame) => {
+      if (!canvasEl) return;
+      const previous = clock;
+      const startMillis = previous.millis();
+      const startFrame = previous.frameCount();
+      let i = 0;
+      clock = {
+        millis: () => startMillis + (i * 1000) / fps,
+        frameCount: () => startFrame + i,
+      };
+      p.noLoop();
+      try {
+        for (; i < count; i++) {
+          p.redraw();
+          await onFrame(canvasEl, i);
+        }
+      } finally {
+        clock = previous;
+        if (autoLoop) p.loop();
+      }
+    },
+  });
 
   p.setup = () => {
-    p.createCanvas(p.windowWidth, p.windowHeight);
-    p.frameRate(30); 
+    canvasEl = p.createCanvas(options.width ?? p.windowWidth, options.height ?? p.windowHeight).elt;
+    if (options.pixelDensity !== undefined) p.pixelDensity(options.pixelDensity);
+    tuning = getTuning();
+    appliedFrameRate = Math.min(tuning.frameRate, quality.maxFrameRate);
+    p.frameRate(appliedFrameRate); 
+    if (!autoLoop) p.noLoop();
+    if (options.seed !== undefined) p.noiseSeed(options.seed);
+    ground.resize(p.width, p.height);
     
-    COL_TRUNK_DORMANT = p.color(35, 30, 30); 
-    COL_TRUNK_THRIVE = p.color(100, 70, 50); 
-    COL_LEAF_TENDER = p.color(120, 210, 100, 230); 
-    COL_FLOWER_PINK = p.color(255, 140, 170, 240); 
+    applyPalette(getEnvironment());
     
     rebuildForest();
   };
 
   p.windowResized = () => {
+    if (options.width !== undefined || options.height !== undefined) return;
     p.resizeCanvas(p.windowWidth, p.windowHeight);
+    ground.resize(p.width, p.height);
     rebuildForest(); // Rebuild because screen ratios change
   };
 
   const rebuildForest = () => {
-    const mode = getSceneMode();
-    currentSceneMode = mode;
+    const scene = getScene();
+    currentScene = scene;
+    currentTreeSpecies = getTreeSpecies();
+    currentGrowth = getGrowth();
     forest = [];
 
-    // Determine max depth based on mode to save performance on many trees
-    // Mode 1: Depth 9, Mode 2: Depth 8, Mode 3: Depth 7 (Increased from 6 for more flowers)
-    let depthLimit = 9;
-    
-    if (mode === 1) {
-      // Single Tree
-      depthLimit = 9;
-      forest.push({
-        xRatio: 0.5,
-        scale: 1.0,
-        seed: 1234,
-        branch: buildTreeSkeleton(depthLimit, 1234)
-      });
-    } else if (mode === 2) {
-      // Double Tree
-      depthLimit = 8;
-      // Tree 1
-      forest.push({
-        xRatio: 0.3,
-        scale: 0.75,
-        seed: 2222,
-        branch: buildTreeSkeleton(depthLimit, 2222)
-      });
-      // Tree 2
+    const count = scene.trees.length;
+    crowded = count >= 3;
+    // Determine max depth based on tree count to save performance on many trees
+    const depthLimit = SCENE_DEPTH_LIMITS[Math.min(Math.max(count, 1), 3)];
+    // Every level doubles the branch count, multi-tree scenes get one at most
+    const extraDepth = Math.min(currentGrowth.extraDepth, count === 1 ? 2 : 1);
+
+    for (const tree of scene.trees) {
+      const rules = getGrowthRules(tree.species ?? currentTreeSpecies);
+      const maxDepth = Math.max(depthLimit + rules.depthOffset + extraDepth, 3);
       forest.push({
-        xRatio: 0.7,
-        scale: 0.75,
-        seed: 3333,
-        branch: buildTreeSkeleton(depthLimit, 3333)
+        xRatio: tree.x,
+        yRatio: tree.y,
+        scale: tree.scale,
+        seed: tree.seed,
+        mood: currentMood,
+        species: rules.id,
+        flowerStyle: tree.flowerStyle,
+        depth: tree.depth ?? 0,
+        maxDepth,
+        skeleton: flattenTree(buildTreeSkeleton(maxDepth, tree.seed, rules, currentGrowth), tree.scale)
       });
-    } else {
-      // Forest (10 trees)
-      depthLimit = 7; // Increased depth for significantly more flowers
-      const count = 10;
-      for (let i = 0; i < count; i++) {
-        // Distribute from 0.05 to 0.95
-        const t = i / (count - 1);
-        const x = 0.05 + t * 0.9;
-        
-        // Use a chaotic multiplier for the seed to ensure random height distribution
-        // and avoid the "6 high, 4 low" grouping.
-        const seed = 5555 + i * 937;
-        p.randomSeed(seed);
-        
-        // Random scale variance: Base 0.30 to 0.42
-        // Natural slight differences, not too extreme
-        const sc = p.random(0.30, 0.42);
-        
-        forest.push({
-          xRatio: x,
-          scale: sc,
-          seed: seed,
-          branch: buildTreeSkeleton(depthLimit, seed)
-        });
-      }
     }
+    // Far to near, sort is stable so the scene order holds within a layer
+    forest.sort((a, b) => b.depth - a.depth);
+    layered = forest.some(tree => tree.depth > 0);
+
+    // Tree skeletons reseed p.random, restart the particle stream from the
+    // sketch seed so it doesn't depend on which trees were built
+    if (options.seed !== undefined) p.randomSeed(options.seed);
   };
 
-  const buildTreeSkeleton = (maxDepth: number, seed: number): Branch => {
+  const buildTreeSkeleton = (
+    maxDepth: number,
+    seed: number,
+    rules: TreeGrowthRules,
+    growth: GrowthProfile
+  ): Branch => {
     p.randomSeed(seed);
 
     const isMobile = p.width < 600;
     const trunkLenRatio = isMobile ? 0.22 : 0.26;
-    const trunkLen = p.height * trunkLenRatio;
-    const trunkThick = p.width < 600 ? 18 : 28;
+    const trunkLen = p.height * trunkLenRatio * rules.trunkLength * growth.heightScale;
+    const flowerChance = Math.min(rules.flowerChance * growth.flowerDensity, 0.95);
+    const trunkThick = (p.width < 600 ? 18 : 28) * rules.trunkThickness;
 
     const createBranch = (depth: number): Branch => {
       const branch: Branch = {
@@ -158,19 +355,19 @@ export const createSketch = (
         angleOffset: 0,
         children: [],
         noiseThreshold: p.random(0.05, 0.95), 
-        // Increased probability of flowers from 50% to 75%
-        hasFlower: p.random(1) > 0.25, 
-        lenMult: 0.72 + p.random(-0.08, 0.08)
+        hasFlower: p.random(1) > 1 - flowerChance, 
+        lenMult: rules.lenDecay + p.random(-rules.lenJitter, rules.lenJitter),
+        thickMult: rules.thickDecay
       };
 
       if (depth < maxDepth) {
-        const numBranches = 2;
-        const baseAngle = p.PI / 5.0; 
+        const numBranches = rules.branchCount;
+        const baseAngle = rules.spread; 
         
         for (let i = 0; i < numBranches; i++) {
           const child = createBranch(depth + 1);
-          let angle = p.map(i, 0, numBranches - 1, -baseAngle, baseAngle);
-          angle += p.random(-0.15, 0.15); 
+          let angle = numBranches > 1 ? p.map(i, 0, numBranches - 1, -baseAngle, baseAngle) : 0;
+          angle += p.random(-rules.angleJitter, rules.angleJitter); 
           child.angleOffset = angle;
           child.thick = 0; 
           branch.children.push(child);
@@ -179,90 +376,204 @@ export const createSketch = (
       return branch;
     };
 
+    // Asymmetry and gravitropism depend on each branch's absolute angle,
+    // which is only known top-down, so they are applied in a second pass.
+    // No randomness here, the classic species stays identical to the original.
+    const shapeBranch = (branch: Branch, absAngle: number) => {
+      for (const child of branch.children) {
+        if (rules.asymmetry !== 0) {
+          const side = Math.sign(child.angleOffset);
+          child.angleOffset *= 1 + rules.asymmetry * 0.5 * side;
+          child.lenMult = Math.min(child.lenMult * (1 + rules.asymmetry * 0.15 * side), 0.95);
+        }
+        if (rules.gravitropism !== 0) {
+          const current = absAngle + child.angleOffset;
+          // Up for positive gravitropism, down on the branch's own side otherwise
+          const target = rules.gravitropism > 0 ? 0 : (current >= 0 ? Math.PI : -Math.PI);
+          const pull = Math.abs(rules.gravitropism) * (child.depth / maxDepth);
+          child.angleOffset += (target - current) * pull;
+        }
+        shapeBranch(child, absAngle + child.angleOffset);
+      }
+    };
+
     const root = createBranch(0);
     root.len = trunkLen;
     root.thick = trunkThick;
+    shapeBranch(root, 0);
     return root;
   };
 
   // --- Flower Drawing Helpers ---
-  const drawFlowerShape = (style: FlowerStyle, size: number) => {
+  const drawPetal = (petal: PetalShape, size: number) => {
+    if (petal.kind === 'ellipse') {
+      p.ellipse(petal.cx * size, petal.cy * size, petal.w * size, petal.h * size);
+      return;
+    }
+    p.beginShape();
+    for (const [op, ...args] of petal.commands) {
+      const [a, b, c, d, e, f] = args.map(v => v * size);
+      if (op === 'Q') p.quadraticVertex(a, b, c, d);
+      else if (op === 'C') p.bezierVertex(a, b, c, d, e, f);
+      else p.vertex(a, b);
+    }
+    p.endShape(p.CLOSE);
+  };
+
+  // Draws a registered species at the origin. `alpha` (0-255) scales the
+  // species' own opacity, falling petals fade out through it.
+  const drawFlowerShape = (style: FlowerStyle, size: number, alpha = 255) => {
+    const species = getFlowerSpecies(style);
+    const fade = alpha / 255;
+    const [r, g, b, a] = species.petalColor;
+
     p.noStroke();
-    switch (style) {
-      case 'sakura':
-        p.fill(COL_FLOWER_PINK);
-        for(let i=0; i<5; i++) {
-            p.push();
-            p.rotate(p.TWO_PI/5 * i);
-            const pLen = size * 0.85; 
-            const pWidth = size * 0.45;
-            p.beginShape();
-            p.vertex(0, 0); 
-            p.quadraticVertex(-pWidth, -pLen * 0.5, 0, -pLen);
-            p.quadraticVertex(pWidth, -pLen * 0.5, 0, 0);
-            p.endShape(p.CLOSE);
-            p.pop();
-        }
-        p.fill(255, 255, 255, 220); 
-        p.circle(0, 0, size * 0.2);
-        break;
-
-      case 'delonix':
-        p.fill(COL_FLOWER_PINK);
-        for(let i=0; i<5; i++) {
-           p.push();
-           p.rotate(p.TWO_PI/5 * i);
-           const totalLen = size * 0.95;
-           const headWidth = size * 0.35;
-           const headHeight = size * 0.4;
-           const stemLen = totalLen - headHeight * 0.8;
-           const stemHalfWidth = size * 0.04; 
-           p.beginShape();
-           p.vertex(0, 0);
-           p.vertex(-stemHalfWidth, -stemLen);
-           p.bezierVertex(-headWidth, -stemLen - headHeight * 0.2, -headWidth, -totalLen, 0, -totalLen);
-           p.bezierVertex(headWidth, -totalLen, headWidth, -stemLen - headHeight * 0.2, stemHalfWidth, -stemLen);
-           p.vertex(0, 0);
-           p.endShape(p.CLOSE);
-           p.pop();
-        }
-        p.fill(255, 200, 100, 150); 
-        p.circle(0, 0, size * 0.15);
-        break;
-
-      case 'peach':
-      default:
-        p.fill(COL_FLOWER_PINK);
-        for(let i=0; i<5; i++) {
-            p.rotate(p.TWO_PI/5);
-            p.ellipse(0, size*0.4, size*0.5, size*0.6);
+    p.fill(r, g, b, a * fade);
+    for (let i = 0; i < species.petalCount; i++) {
+      p.push();
+      p.rotate(p.TWO_PI / species.petalCount * i);
+      drawPetal(species.petal, size);
+      p.pop();
+    }
+
+    const [cr, cg, cb, ca] = species.center.color;
+    p.fill(cr, cg, cb, ca * fade);
+    p.circle(0, 0, size * species.center.size);
+  };
+
+  const frameCount = (): number => clock.frameCount();
+
+  // Night dims the tree towards the sky
+  const applyPalette = (next: Environment) => {
+    env = next;
+    if (paletteEnv === next) return;
+    paletteEnv = next;
+    const night = p.color(13, 16, 48);
+    const lit = (rgba: number[]) => {
+      const c = p.lerpColor(p.color(rgba[0], rgba[1], rgba[2]), night, 1 - next.light);
+      c.setAlpha(rgba[3]);
+      return c;
+    };
+    COL_TRUNK_DORMANT = lit(next.trunkDormant);
+    COL_TRUNK_THRIVE = lit(next.trunkThrive);
+    COL_LEAF_TENDER = lit(next.leaf);
+    COL_HAZE = p.color(next.sky[next.sky.length - 1]);
+  };
+
+  // Atmospheric perspective, the colour keeps its own alpha
+  const hazed = (c: p5.Color, amount: number): p5.Color => {
+    if (amount <= 0) return c;
+    const tinted = p.lerpColor(c, COL_HAZE, amount);
+    tinted.setAlpha(p.alpha(c));
+    return tinted;
+  };
+
+  // Which flowering tips bloom this season. Derived from noiseThreshold so
+  // the skeleton (and its random sequence) stays untouched.
+  const bloomsThisSeason = (noiseThreshold: number) => (noiseThreshold * 1000) % 1 < env.flowerBloom;
+
+  // Nearest outer tip drawn last frame within HIT_RADIUS
+  const findBranch = (x: number, y: number): BranchHit | null => {
+    let best: BranchHit | null = null;
+    let bestDist = HIT_RADIUS * HIT_RADIUS;
+    for (const { skeleton } of forest) {
+      for (let i = 0; i < skeleton.count; i++) {
+        if (!skeleton.visible[i] || skeleton.depth[i] < 2) continue;
+        const d = (skeleton.x1[i] - x) ** 2 + (skeleton.y1[i] - y) ** 2;
+        if (d < bestDist) {
+          best = { tree: skeleton, index: i, x: skeleton.x1[i], y: skeleton.y1[i] };
+          bestDist = d;
         }
-        p.fill(255, 220, 100); 
-        p.circle(0, 0, size * 0.3);
-        break;
+      }
+    }
+    return best;
+  };
+
+  // Pseudo-random 0..1 per tip and frame. Cheaper than p.noise and keeps
+  // the p.random stream untouched.
+  const tipHash = (tip: number, frame: number) => {
+    const h = Math.sin(tip * 12.9898 + frame * 78.233) * 43758.5453;
+    return h - Math.floor(h);
+  };
+
+  // Blooming is quick, withering is slow. Vision moods come pre-filtered
+  // and are followed directly, easing them again would only add lag.
+  const smoothMood = (current: number, target: number, filtered = false) => {
+    if (filtered) return target;
+    if (target >= current) {
+      return p.lerp(current, target, 0.1);
     }
+    return p.lerp(current, target, 0.03);
   };
 
   p.draw = () => {
-    // 1. Check Scene Mode & Rebuild if needed
-    const mode = getSceneMode();
-    if (mode !== currentSceneMode) {
+    if (skipSetupDraw) {
+      skipSetupDraw = false;
+      return;
+    }
+    const drawStart = performance.now();
+    // 1. Check Scene & Rebuild if needed
+    const growth = getGrowth();
+    ground.setCarpet(growth.carpet);
+    if (
+      getScene() !== currentScene ||
+      getTreeSpecies() !== currentTreeSpecies ||
+      growth.extraDepth !== currentGrowth.extraDepth ||
+      growth.heightScale !== currentGrowth.heightScale ||
+      growth.flowerDensity !== currentGrowth.flowerDensity
+    ) {
       rebuildForest();
     }
 
     // 2. Get State
     const state = getTreeState();
     const flowerStyle = getFlowerStyle();
+    applyPalette(getEnvironment());
+    tuning = getTuning();
+    const frameRate = Math.min(tuning.frameRate, quality.maxFrameRate);
+    if (frameRate !== appliedFrameRate) {
+      appliedFrameRate = frameRate;
+      p.frameRate(appliedFrameRate);
+    }
+    particleBudget = Math.round(tuning.maxParticles * quality.particleScale);
     
     // Mood Smoothing
-    if (state.mood >= currentMood) {
-      currentMood = p.lerp(currentMood, state.mood, 0.1); 
-    } else {
-      currentMood = p.lerp(currentMood, state.mood, 0.03); 
+    moodBoost *= 0.98;
+    const boosted = (mood: number) => Math.min(mood + moodBoost, 1);
+    currentMood = smoothMood(currentMood, boosted(state.mood), state.moodFiltered);
+    // Head drifts back to the center when nobody is tracked
+    parallax = p.lerp(parallax, state.headX === undefined ? 0 : state.headX - 0.5, 0.05);
+
+    // Group mode: in the forest each tree follows the nearest person
+    const people = crowded && state.people && state.people.length > 0
+      ? state.people
+      : null;
+    for (const tree of forest) {
+      let target = state.mood;
+      if (people) {
+        let nearest = people[0];
+        for (const person of people) {
+          if (Math.abs(person.x - tree.xRatio) < Math.abs(nearest.x - tree.xRatio)) {
+            nearest = person;
+          }
+        }
+        target = nearest.moodScore;
+      }
+      tree.mood = smoothMood(tree.mood, boosted(target), state.moodFiltered);
     }
     
-    const targetWind = state.windForce;
+    conditions = weather.update(millis(), state.moodSensed ? currentMood : null, getWeather(), env.season);
+
+    const calmed = millis() < windCalmUntil;
+    const inputWind = state.windForce * tuning.windStrength;
+    const targetWind = calmed ? inputWind * 0.1 : inputWind;
     currentWind = p.lerp(currentWind, targetWind, 0.12);
+    // Gusts ride on top of the smoothed wind, calming damps them too
+    const gust = calmed ? conditions.gust * 0.1 : conditions.gust;
+    swipeWind *= 0.95;
+    const wind = currentWind + gust + swipeWind;
+    gustShiver = Math.abs(gust) * 0.06;
+    branchDroop = conditions.rain * 0.05 + conditions.settledSnow * 0.08;
 
     // 3. Background
     p.clear();
@@ -277,158 +588,236 @@ export const createSketch = (
     p.pop();
 
     // 4. Wind Physics
-    const time = p.millis() * 0.001;
+    const time = millis() * 0.001;
     const noiseSway = p.map(p.noise(time * 0.6), 0, 1, -0.04, 0.04);
-    const windSign = currentWind < 0 ? -1 : 1;
-    const effectiveWind = windSign * Math.pow(Math.abs(currentWind), 1.4);
+    const windSign = wind < 0 ? -1 : 1;
+    const effectiveWind = windSign * Math.pow(Math.abs(wind), 1.4);
     const activeSway = Math.sin(time * 2.5) * (effectiveWind * 0.1) + (effectiveWind * 0.3);
     const totalWindAngle = noiseSway + activeSway;
 
     // 5. Draw Forest
+    bloomTips = [];
     for (const tree of forest) {
-        p.push();
-        // Base X position based on ratio
-        const startX = p.width * tree.xRatio;
-        const startY = p.height;
-        
-        p.translate(startX, startY);
-        
-        // Render tree with scaled dimensions
-        renderBranch(
-            tree.branch, 
-            tree.branch.len * tree.scale, 
-            tree.branch.thick * tree.scale, 
-            totalWindAngle, 
-            startX, 
-            startY, 
-            0, 
-            flowerStyle,
-            tree.scale // Pass scale for flower sizing
-        );
-        p.pop();
+      renderTree(tree, totalWindAngle, flowerStyle);
     }
 
-    // 6. Particles
-    updateParticles(currentWind, flowerStyle);
+    // 6. Ground, in front of the trunks
+    updateGround(wind);
+    drawGround();
+
+    // 7. Particles
+    updateParticles(wind, flowerStyle);
+
+    // Only real frames say anything about this machine (not exports / headless)
+    if (clock === realClock) {
+      const now = performance.now();
+      quality = governor.update(now, now - drawStart, appliedFrameRate, tuning.quality);
+    } else {
+      governor.pause();
+      if (tuning.quality !== 'auto') quality = QUALITY_LEVELS[tuning.quality === 'high' ? 0 : QUALITY_LEVELS.length - 1];
+    }
   };
 
-  const renderBranch = (
-    branch: Branch,
-    len: number, 
-    thick: number, 
-    windAngle: number,
-    x: number, 
-    y: number, 
-    cumAngle: number,
-    flowerStyle: FlowerStyle,
-    scale: number
-  ) => {
-    const bloomFactor = p.map(currentMood, 0, 1, 0, 1, true); 
-    let branchCol = p.lerpColor(COL_TRUNK_DORMANT, COL_TRUNK_THRIVE, bloomFactor);
-
-    p.stroke(branchCol);
-    p.strokeWeight(thick);
-    p.strokeCap(p.ROUND);
-    p.line(0, 0, 0, -len);
-    
-    // Calculate tip position in World Coordinates
-    const tipX = x + Math.sin(cumAngle) * len;
-    const tipY = y - Math.cos(cumAngle) * len;
+  // Poses the tree, then draws it in batches: one stroke per depth for the
+  // branches, one fill each for leaves, petals and flower centers
+  const renderTree = (tree: TreeInstance, sceneWind: number, flowerStyle: FlowerStyle) => {
+    const skeleton = tree.skeleton;
+    const maxDepth = Math.max(tree.maxDepth + quality.depthOffset, 3);
+    const now = millis();
+    // Far trees sway less, fade into the haze and barely move with the head
+    const calm = 1 - tree.depth * FAR_CALM;
+    const haze = tree.depth * HAZE;
+    const windAngle = sceneWind * calm;
+    const baseX = p.width * tree.xRatio - (layered ? parallax * PARALLAX * p.width * (1 - tree.depth) : 0);
+    const baseY = p.height * tree.yRatio;
+    poseTree(skeleton, baseX, baseY, {
+      maxDepth,
+      windAngle,
+      shiver: gustShiver * calm,
+      shiverPhase: now * 0.02,
+      droop: branchDroop,
+    });
+    updateBends(skeleton);
+
+    const { count, parent, depth, thick, visible, angle, x0, y0, x1, y1, boost, boostAt, glow } = skeleton;
+    const style = tree.flowerStyle ?? flowerStyle;
+    const species = getFlowerSpecies(style);
+    const breathe = 1 + Math.sin(now * 0.004) * 0.08;
+    const foliageSway = windAngle * 3.0;
+    const snowCover = Math.max(env.snowCover, conditions.settledSnow);
+    // Seasons shed more (autumn) or less (winter) than spring, the forest
+    // has many more tips so each one sheds less
+    const shed = (env.particles.leaf + env.particles.flower) / 2;
+    const spawnChance = (crowded ? 0.002 : 0.02) * shed * tuning.particleRate;
+    const frame = frameCount();
 
-    p.translate(0, -len);
+    const branchPaths: Path2D[] = [];
+    const depthThick: number[] = [];
+    const snowPaths: Path2D[] = [];
+    const boosted: number[] = []; // Own colour, drawn one by one
+    const leaves = new Path2D();
+    const petals = new Path2D();
+    const centers = new Path2D();
 
-    const maxDepth = currentSceneMode === 3 ? 7 : (currentSceneMode === 2 ? 8 : 9);
+    for (let i = 0; i < count; i++) {
+      if (!visible[i]) continue;
+      const d = depth[i];
+      depthThick[d] = thick[i]; // Same for every branch of a level
 
-    if (branch.depth > maxDepth - 4) {
-      const isAttached = bloomFactor > branch.noiseThreshold;
+      // Local bloom, parents are always visited first
+      let local = i > 0 ? glow[parent[i]] : 0;
+      if (boost[i] > 0) {
+        const fade = 1 - (now - boostAt[i]) / LOCAL_BLOOM_MS;
+        if (fade <= 0) boost[i] = 0;
+        else local = Math.max(local, boost[i] * fade);
+      }
+      glow[i] = local;
+      const bloomFactor = p.constrain(tree.mood + local, 0, 1);
+
+      if (local > 0) {
+        boosted.push(i);
+      } else {
+        const path = branchPaths[d] ?? (branchPaths[d] = new Path2D());
+        path.moveTo(x0[i], y0[i]);
+        path.lineTo(x1[i], y1[i]);
+      }
 
+      // Snow rests on the upper side of leaning branches
+      if (snowCover > 0 && d > 0) {
+        const tilt = Math.sin(angle[i]);
+        const snow = snowCover * Math.min(Math.abs(tilt) * 1.5, 1);
+        if (snow > 0.05) {
+          const offset = -Math.sign(tilt) * thick[i] * 0.3;
+          const ox = offset * Math.cos(angle[i]);
+          const oy = offset * Math.sin(angle[i]);
+          const key = d * SNOW_LEVELS + Math.min(Math.ceil(snow * SNOW_LEVELS), SNOW_LEVELS) - 1;
+          const path = snowPaths[key] ?? (snowPaths[key] = new Path2D());
+          path.moveTo(x0[i] + ox, y0[i] + oy);
+          path.lineTo(x1[i] + ox, y1[i] + oy);
+        }
+      }
+
+      if (d <= maxDepth - quality.foliageLevels) continue;
+
+      const threshold = skeleton.noiseThreshold[i];
+      const isAttached = bloomFactor * env.foliageDensity > threshold;
+      // Sparse seasons still flower, on bare branches if need be
+      const inBloom = bloomFactor * Math.max(env.foliageDensity, 1) > threshold;
+      const hasFlower = skeleton.hasFlower[i] === 1 && bloomsThisSeason(threshold);
+      const growthScale = p.constrain(bloomFactor * 1.5, 0.5, 1);
       if (isAttached) {
-         drawAttachedFoliage(windAngle, branch.hasFlower, bloomFactor, flowerStyle, scale);
+        const leafSize = 11 * tree.scale * breathe * growthScale;
+        for (let side = -1; side <= 1; side += 2) {
+          const a = angle[i] + side * p.QUARTER_PI + foliageSway;
+          const rx = leafSize / 2;
+          leaves.moveTo(x1[i] + rx * Math.cos(a), y1[i] + rx * Math.sin(a));
+          leaves.ellipse(x1[i], y1[i], rx, leafSize * 0.25, a, 0, p.TWO_PI);
+        }
       }
 
-      const time = p.millis();
-      // Use tipX/tipY world coords for noise seed so trees don't sync up perfectly
-      const spawnNoise = p.noise(tipX * 0.1, tipY * 0.1, time * 0.008);
-      
-      // Reduce spawn rate for forest mode (mode 3) because there are many more branches now
-      const spawnChance = currentSceneMode === 3 ? 0.002 : 0.02;
+      if (inBloom && hasFlower && bloomFactor > 0.25) {
+        const flowerSize = 14 * tree.scale * breathe * growthScale;
+        for (let k = 0; k < species.petalCount; k++) {
+          const a = angle[i] + foliageSway + (p.TWO_PI / species.petalCount) * k;
+          tracePetal(petals, species.petal, x1[i], y1[i], a, flowerSize);
+        }
+        const r = (flowerSize * species.center.size) / 2;
+        centers.moveTo(x1[i] + r, y1[i]);
+        centers.arc(x1[i], y1[i], r, 0, p.TWO_PI);
+        bloomTips.push({ x: x1[i], y: y1[i], scale: tree.scale, style });
+      }
 
-      if (bloomFactor > 0.3) {
-          if ((spawnNoise * 100) % 1.0 < spawnChance) {
-              spawnFallingParticle(tipX, tipY, scale);
-          }
+      if (bloomFactor > 0.3 && tipHash(tree.seed + i, frame) < spawnChance) {
+        spawnFallingParticle(x1[i], y1[i], tree.scale, undefined, style);
       }
     }
 
-    if (branch.depth >= maxDepth || len < 4) return;
+    const ctx: CanvasRenderingContext2D = p.drawingContext;
+    ctx.globalAlpha = 1 - tree.depth * FAR_FADE;
 
-    const flexibility = p.map(branch.depth, 0, maxDepth, 0.05, 1.3);
-    const localWind = windAngle * flexibility;
+    // A mound of earth under trees that don't stand on the bottom edge
+    if (tree.yRatio < 1) {
+      p.noStroke();
+      p.fill(hazed(COL_TRUNK_DORMANT, haze));
+      p.ellipse(baseX, baseY + thick[0] * 0.6, thick[0] * 12, thick[0] * 2.4);
+    }
 
-    for (const child of branch.children) {
-      p.push();
-      const nextAngle = child.angleOffset + localWind;
-      p.rotate(nextAngle);
-      
-      renderBranch(
-        child,
-        len * child.lenMult, 
-        thick * 0.7, 
-        windAngle, 
-        tipX, 
-        tipY, 
-        cumAngle + nextAngle,
-        flowerStyle,
-        scale
-      );
-      p.pop();
+    p.strokeCap(p.ROUND);
+    p.stroke(hazed(p.lerpColor(COL_TRUNK_DORMANT, COL_TRUNK_THRIVE, p.constrain(tree.mood, 0, 1)), haze));
+    branchPaths.forEach((path, d) => {
+      p.strokeWeight(depthThick[d]);
+      ctx.stroke(path);
+    });
+    for (const i of boosted) {
+      p.stroke(hazed(p.lerpColor(COL_TRUNK_DORMANT, COL_TRUNK_THRIVE, p.constrain(tree.mood + glow[i], 0, 1)), haze));
+      p.strokeWeight(thick[i]);
+      p.line(x0[i], y0[i], x1[i], y1[i]);
     }
-  };
 
-  const drawAttachedFoliage = (windAngle: number, hasFlower: boolean, bloomFactor: number, style: FlowerStyle, scale: number) => {
+    snowPaths.forEach((path, key) => {
+      const level = (key % SNOW_LEVELS) + 1;
+      p.stroke(245, 248, 255, (220 * level) / SNOW_LEVELS);
+      p.strokeWeight(depthThick[Math.floor(key / SNOW_LEVELS)] * 0.5);
+      ctx.stroke(path);
+    });
+
     p.noStroke();
-    const breathe = 1 + Math.sin(p.millis() * 0.004) * 0.08;
-    const foliageSway = windAngle * 3.0;
-    
-    const growthScale = p.constrain(bloomFactor * 1.5, 0.5, 1);
-    const baseLeafSize = 11 * scale; 
-    const leafSize = baseLeafSize * breathe * growthScale; 
-    
-    p.push();
-    p.rotate(p.PI / 4 + foliageSway); 
-    p.fill(COL_LEAF_TENDER);
-    p.ellipse(0, 0, leafSize, leafSize * 0.5);
-    p.pop();
-    
-    p.push();
-    p.rotate(-p.PI / 4 + foliageSway);
-    p.fill(COL_LEAF_TENDER);
-    p.ellipse(0, 0, leafSize, leafSize * 0.5);
-    p.pop();
+    p.fill(hazed(COL_LEAF_TENDER, haze));
+    ctx.fill(leaves);
+    p.fill(hazed(p.color(...species.petalColor), haze));
+    ctx.fill(petals);
+    p.fill(hazed(p.color(...species.center.color), haze));
+    ctx.fill(centers);
+    ctx.globalAlpha = 1;
+  };
 
-    if (hasFlower && bloomFactor > 0.25) {
-        const baseFlowerSize = 14 * scale;
-        const flowerSize = baseFlowerSize * breathe * growthScale;
-        p.push();
-        p.rotate(foliageSway);
-        drawFlowerShape(style, flowerSize);
-        p.pop();
+  // Follow the pointer while grabbed, spring back to rest otherwise.
+  // The pose angle already includes the branch's own bend.
+  const updateBends = (tree: FlatTree) => {
+    const { bend, bendVel } = tree;
+    for (let i = 1; i < tree.count; i++) {
+      if (grabbed && grabbed.tree === tree && grabbed.index === i) {
+        const toPointer = Math.atan2(grabbed.x - tree.x0[i], tree.y0[i] - grabbed.y);
+        const rest = tree.angle[i] - bend[i];
+        let delta = toPointer - rest;
+        delta = Math.atan2(Math.sin(delta), Math.cos(delta)); // Wrap to -PI..PI
+        const target = p.constrain(delta, -0.8, 0.8);
+        bend[i] = p.lerp(bend[i], target, 0.3);
+        bendVel[i] = 0;
+      } else if (bend[i] !== 0 || bendVel[i] !== 0) {
+        bendVel[i] = (bendVel[i] - bend[i] * 0.2) * 0.8;
+        bend[i] += bendVel[i];
+        if (Math.abs(bend[i]) < 0.001 && Math.abs(bendVel[i]) < 0.001) {
+          bend[i] = 0;
+          bendVel[i] = 0;
+        }
+      }
     }
   };
 
-  const spawnFallingParticle = (x: number, y: number, scale: number) => {
+  const spawnFallingParticle = (
+    x: number,
+    y: number,
+    scale: number,
+    type?: Particle['type'],
+    style: FlowerStyle = getFlowerStyle()
+  ): Particle | undefined => {
     if (x < -50 || x > p.width + 50 || y > p.height) return;
 
+    const { leaf, flower } = env.particles;
+    if (!type && leaf + flower <= 0) return;
+
     const vx = p.random(-0.5, 0.5) + currentWind * 2.5;
     const vy = p.random(1.5, 3.5); 
-    const isFlower = p.random(1) > 0.5;
+    // Seasonal mix, even split in spring
+    const isFlower = type ? type === 'flower' : p.random(1) < flower / (leaf + flower);
     const baseSize = isFlower ? p.random(7, 12) : p.random(7, 12);
     
-    particles.push({
+    const part: Particle = {
       pos: p.createVector(x, y), 
       vel: p.createVector(vx, vy), 
       acc: p.createVector(0, 0), 
-      color: isFlower ? COL_FLOWER_PINK : COL_LEAF_TENDER, 
+      color: isFlower ? p.color(...getFlowerSpecies(style).petalColor) : COL_LEAF_TENDER, 
       type: isFlower ? 'flower' : 'leaf',
       size: baseSize * scale, // Scale particle
       life: 255, 
@@ -438,23 +827,178 @@ export const createSketch = (
       flipSpeed: p.random(0.05, 0.2),
       swayPhase: p.random(p.TWO_PI),
       swayFreq: p.random(0.05, 0.1),
-      swayAmp: p.random(0.02, 0.05)
+      swayAmp: p.random(0.02, 0.05),
+      style
+    };
+    particles.push(part);
+    return part;
+  };
+
+  // Ambient snowfall drifts in from above the canvas
+  const spawnSnow = () => {
+    particles.push({
+      pos: p.createVector(p.random(-50, p.width + 50), -10),
+      vel: p.createVector(p.random(-0.3, 0.3), p.random(0.5, 1.2)),
+      acc: p.createVector(0, 0),
+      color: p.color(245, 248, 255),
+      type: 'snow',
+      size: p.random(2, 5),
+      life: 255,
+      angle: 0,
+      angleVel: 0,
+      flip: 0,
+      flipSpeed: 0,
+      swayPhase: p.random(p.TWO_PI),
+      swayFreq: p.random(0.02, 0.05),
+      swayAmp: p.random(0.01, 0.03)
     });
   };
 
+  // Rain streaks start above the canvas, upwind so they slant into view
+  const spawnRain = (windForce: number) => {
+    particles.push({
+      pos: p.createVector(p.random(-100, p.width + 100) - windForce * 100, -20),
+      vel: p.createVector(windForce * 3, p.random(8, 12)),
+      acc: p.createVector(0, 0),
+      color: p.color(180, 200, 230),
+      type: 'rain',
+      size: p.random(1, 1.8),
+      life: 255,
+      angle: 0,
+      angleVel: 0,
+      flip: 0,
+      flipSpeed: 0,
+      swayPhase: 0,
+      swayFreq: 0,
+      swayAmp: 0
+    });
+  };
+
+  // Weather shares the pool, capped so it can't crowd out petals
+  const spawnWeather = (windForce: number) => {
+    let weatherCount = 0;
+    for (const part of particles) {
+      if (part.type === 'rain' || part.type === 'snow') weatherCount++;
+    }
+    // Leave room for petals
+    let budget = particleBudget / 2 - weatherCount;
+
+    const rainDrops = conditions.rain * 4 + p.random(1);
+    for (let i = 1; i <= rainDrops && budget > 0; i++, budget--) {
+      spawnRain(windForce);
+    }
+    const snowChance = env.particles.snow * 0.15 + conditions.snow * 0.8;
+    if (budget > 0 && snowChance > 0 && p.random(1) < snowChance) {
+      spawnSnow();
+    }
+  };
+
+  // Withers old petals, strong wind blows some back into the air
+  const updateGround = (windForce: number) => {
+    const now = millis();
+    for (const petal of ground.update(now, windForce, () => p.random(1))) {
+      particles.push({
+        pos: p.createVector(petal.x, petal.y - 2),
+        vel: p.createVector(windForce * p.random(1.5, 3), -p.random(2, 5)),
+        acc: p.createVector(0, 0),
+        color: p.color(petal.fill),
+        type: petal.kind,
+        size: petal.size,
+        life: 255 * petal.opacity * ground.freshness(petal, now),
+        angle: petal.angle,
+        angleVel: p.random(-0.3, 0.3),
+        flip: 0,
+        flipSpeed: p.random(0.1, 0.3),
+        swayPhase: p.random(p.TWO_PI),
+        swayFreq: p.random(0.05, 0.1),
+        swayAmp: p.random(0.02, 0.05),
+        style: petal.style
+      });
+    }
+  };
+
+  // Fallen flowers look like the falling ones: species petals, then the
+  // centers on top. Batched by colour and fade step.
+  const drawGround = () => {
+    const now = millis();
+    type Batch = { path: Path2D; fill: string; alpha: number };
+    const bodies = new Map<string, Batch>();
+    const centers = new Map<string, Batch>();
+    const pathFor = (batches: Map<string, Batch>, level: number, fill: string) => {
+      const key = `${level} ${fill}`;
+      let batch = batches.get(key);
+      if (!batch) {
+        batch = { path: new Path2D(), fill, alpha: level / GROUND_FADE_STEPS };
+        batches.set(key, batch);
+      }
+      return batch.path;
+    };
+    const css = ([r, g, b, a]: RGBA) => `rgba(${r},${g},${b},${a / 255})`;
+
+    for (const petal of ground.petals()) {
+      const level = Math.ceil(petal.opacity * ground.freshness(petal, now) * GROUND_FADE_STEPS);
+      if (level <= 0) continue;
+      if (petal.kind === 'flower') {
+        const species = getFlowerSpecies(petal.style ?? getFlowerStyle());
+        const path = pathFor(bodies, level, css(species.petalColor));
+        for (let k = 0; k < species.petalCount; k++) {
+          const a = petal.angle + (p.TWO_PI / species.petalCount) * k;
+          tracePetal(path, species.petal, petal.x, petal.y, a, petal.size);
+        }
+        const center = pathFor(centers, level, css(species.center.color));
+        const r = (petal.size * species.center.size) / 2;
+        center.moveTo(petal.x + r, petal.y);
+        center.arc(petal.x, petal.y, r, 0, p.TWO_PI);
+      } else {
+        const path = pathFor(bodies, level, petal.fill);
+        const rx = petal.size / 2;
+        path.moveTo(petal.x + rx * Math.cos(petal.angle), petal.y + rx * Math.sin(petal.angle));
+        path.ellipse(petal.x, petal.y, rx, petal.size * 0.35, petal.angle, 0, p.TWO_PI);
+      }
+    }
+
+    const ctx: CanvasRenderingContext2D = p.drawingContext;
+    for (const batch of [...bodies.values(), ...centers.values()]) {
+      ctx.globalAlpha = batch.alpha;
+      ctx.fillStyle = batch.fill;
+      ctx.fill(batch.path);
+    }
+    ctx.globalAlpha = 1;
+  };
+
+  // A falling petal or leaf that reached the ground stays there
+  const settle = (part: Particle) => {
+    const petal: SettledPetal = {
+      x: part.pos.x,
+      y: ground.surfaceAt(part.pos.x) + p.random(-1.5, 1.5),
+      angle: part.angle,
+      size: part.size,
+      fill: part.color.toString(),
+      opacity: part.life / 255,
+      kind: part.type === 'flower' ? 'flower' : 'leaf',
+      style: part.style,
+      landedAt: millis(),
+    };
+    ground.land(petal, Math.round(particleBudget * GROUND_SHARE));
+  };
+
   const updateParticles = (windForce: number, currentStyle: FlowerStyle) => {
-    if (particles.length > MAX_PARTICLES) {
-      particles.splice(0, particles.length - MAX_PARTICLES);
+    if (conditions.rain > 0 || conditions.snow > 0 || env.particles.snow > 0) {
+      spawnWeather(windForce);
+    }
+
+    if (particles.length > particleBudget) {
+      particles.splice(0, particles.length - particleBudget);
     }
 
     for (let i = particles.length - 1; i >= 0; i--) {
       const part = particles[i];
 
-      part.acc.set(0, 0.1); 
-      const turbulence = p.noise(part.pos.x * 0.01, part.pos.y * 0.01, p.frameCount * 0.02) - 0.5;
+      part.acc.set(0, part.type === 'rain' ? 0.6 : part.type === 'snow' ? 0.03 : 0.1); 
+      const turbulence = p.noise(part.pos.x * 0.01, part.pos.y * 0.01, frameCount() * 0.02) - 0.5;
       const windEffect = windForce * 0.25; 
       part.acc.x += windEffect + (turbulence * 0.15);
-      const swayForce = Math.sin(p.frameCount * part.swayFreq + part.swayPhase) * part.swayAmp;
+      const swayForce = Math.sin(frameCount() * part.swayFreq + part.swayPhase) * part.swayAmp;
       part.acc.x += swayForce;
 
       part.vel.add(part.acc);
@@ -464,13 +1008,21 @@ export const createSketch = (
       part.angle += part.angleVel;
       part.flip += part.flipSpeed;
       
-      part.life -= 2;
+      // Petals and leaves fade slowly enough to reach the ground
+      part.life -= part.type === 'snow' ? 0.3 : part.type === 'rain' ? 2 : 0.6;
 
       if (part.life <= 0 || part.pos.y > p.height + 100) {
         particles.splice(i, 1);
         continue;
       }
 
+      const falling = part.type === 'flower' || part.type === 'leaf';
+      if (falling && part.vel.y > 0 && part.pos.x >= 0 && part.pos.x <= p.width && part.pos.y >= ground.surfaceAt(part.pos.x)) {
+        settle(part);
+        particles.splice(i, 1);
+        continue;
+      }
+
       p.push();
       p.translate(part.pos.x, part.pos.y);
       p.rotate(part.angle); 
@@ -484,7 +1036,15 @@ export const createSketch = (
       const alpha = part.life;
       
       if (part.type === 'flower') {
-        drawFlowerShapeWithAlpha(currentStyle, part.size, alpha);
+        drawFlowerShape(part.style ?? currentStyle, part.size, alpha);
+      } else if (part.type === 'rain') {
+        p.stroke(180, 200, 230, alpha * 0.6);
+        p.strokeWeight(part.size);
+        p.line(0, 0, -part.vel.x * 1.5, -part.vel.y * 1.5);
+      } else if (part.type === 'snow') {
+        p.fill(245, 248, 255, alpha);
+        p.noStroke();
+        p.circle(0, 0, part.size);
       } else {
         const c = p.color(part.color);
         c.setAlpha(alpha);
@@ -495,53 +1055,4 @@ export const createSketch = (
       p.pop();
     }
   };
-
-  const drawFlowerShapeWithAlpha = (style: FlowerStyle, size: number, alpha: number) => {
-      p.noStroke();
-      p.fill(p.red(COL_FLOWER_PINK), p.green(COL_FLOWER_PINK), p.blue(COL_FLOWER_PINK), alpha);
-      
-      if (style === 'sakura') {
-        for(let i=0; i<5; i++) {
-            p.push();
-            p.rotate(p.TWO_PI/5 * i);
-            const pLen = size * 0.85; 
-            const pWidth = size * 0.45;
-            p.beginShape();
-            p.vertex(0, 0); 
-            p.quadraticVertex(-pWidth, -pLen * 0.5, 0, -pLen);
-            p.quadraticVertex(pWidth, -pLen * 0.5, 0, 0);
-            p.endShape(p.CLOSE);
-            p.pop();
-        }
-        p.fill(255, 255, 255, alpha); 
-        p.circle(0, 0, size * 0.2);
-      } else if (style === 'delonix') {
-        for(let i=0; i<5; i++) {
-           p.push();
-           p.rotate(p.TWO_PI/5 * i);
-           const totalLen = size * 0.95;
-           const headWidth = size * 0.35;
-           const headHeight = size * 0.4;
-           const stemLen = totalLen - headHeight * 0.8;
-           const stemHalfWidth = size * 0.04; 
-           p.beginShape();
-           p.vertex(0, 0);
-           p.vertex(-stemHalfWidth, -stemLen);
-           p.bezierVertex(-headWidth, -stemLen - headHeight * 0.2, -headWidth, -totalLen, 0, -totalLen);
-           p.bezierVertex(headWidth, -totalLen, headWidth, -stemLen - headHeight * 0.2, stemHalfWidth, -stemLen);
-           p.vertex(0, 0);
-           p.endShape(p.CLOSE);
-           p.pop();
-        }
-        p.fill(255, 200, 100, alpha * 0.6); 
-        p.circle(0, 0, size * 0.15);
-      } else {
-        for(let i=0; i<5; i++) {
-            p.rotate(p.TWO_PI/5);
-            p.ellipse(0, size*0.4, size*0.5, size*0.6);
-        }
-        p.fill(255, 220, 100, alpha); 
-        p.circle(0, 0, size * 0.3);
-      }
-  };
 };
\ No newline at end of file
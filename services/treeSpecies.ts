@@ -0,0 +1,124 @@
+// Tree species as growth-rule presets for buildTreeSkeleton. Every species
+// still produces the same baked Branch structure, only the shape differs.
+
+export interface TreeGrowthRules {
+  id: string;
+  name: string;
+  branchCount: number; // Children per branch
+  spread: number; // Angle of the outermost children off the parent (radians)
+  angleJitter: number; // Random +- added to each child angle
+  lenDecay: number; // Child length relative to parent
+  lenJitter: number; // Random +- on lenDecay
+  thickDecay: number; // Child thickness relative to parent
+  // -1..1, one side grows longer and opens wider (windswept / bonsai look)
+  asymmetry: number;
+  // -1..1, > 0 bends branches back towards vertical, < 0 lets them hang
+  gravitropism: number;
+  trunkLength: number; // Multiplier on the default trunk length
+  trunkThickness: number; // Multiplier on the default trunk thickness
+  flowerChance: number; // 0..1, share of tips that carry a flower
+  // Added to the scene's depth limit. Species with more than two children
+  // per branch need fewer levels to stay within the same branch budget.
+  depthOffset: number;
+}
+
+const registry = new Map<string, TreeGrowthRules>();
+
+export const registerTreeSpecies = (rules: TreeGrowthRules) => {
+  registry.set(rules.id, rules);
+};
+
+export const DEFAULT_TREE_SPECIES = 'classic';
+
+export const getTreeSpecies = (id: string): TreeGrowthRules =>
+  registry.get(id) ?? registry.get(DEFAULT_TREE_SPECIES)!;
+
+export const listTreeSpecies = (): TreeGrowthRules[] => Array.from(registry.values());
+
+// --- Built-in Species ---
+
+// The original binary tree
+registerTreeSpecies({
+  id: 'classic',
+  name: "经典",
+  branchCount: 2,
+  spread: Math.PI / 5,
+  angleJitter: 0.15,
+  lenDecay: 0.72,
+  lenJitter: 0.08,
+  thickDecay: 0.7,
+  asymmetry: 0,
+  gravitropism: 0,
+  trunkLength: 1,
+  trunkThickness: 1,
+  flowerChance: 0.75,
+  depthOffset: 0,
+});
+
+registerTreeSpecies({
+  id: 'willow',
+  name: "垂柳",
+  branchCount: 2,
+  spread: Math.PI / 4,
+  angleJitter: 0.2,
+  lenDecay: 0.8,
+  lenJitter: 0.06,
+  thickDecay: 0.62,
+  asymmetry: 0,
+  gravitropism: -0.35,
+  trunkLength: 0.9,
+  trunkThickness: 1,
+  flowerChance: 0.6,
+  depthOffset: 0,
+});
+
+registerTreeSpecies({
+  id: 'pine',
+  name: "松",
+  branchCount: 3,
+  spread: Math.PI / 3,
+  angleJitter: 0.1,
+  lenDecay: 0.64,
+  lenJitter: 0.05,
+  thickDecay: 0.6,
+  asymmetry: 0,
+  gravitropism: 0.3,
+  trunkLength: 1.25,
+  trunkThickness: 0.9,
+  flowerChance: 0.5,
+  depthOffset: -3,
+});
+
+registerTreeSpecies({
+  id: 'baobab',
+  name: "猴面包树",
+  branchCount: 3,
+  spread: Math.PI / 2.6,
+  angleJitter: 0.2,
+  lenDecay: 0.6,
+  lenJitter: 0.1,
+  thickDecay: 0.55,
+  asymmetry: 0,
+  gravitropism: 0.15,
+  trunkLength: 1.05,
+  trunkThickness: 1.9,
+  flowerChance: 0.7,
+  depthOffset: -3,
+});
+
+registerTreeSpecies({
+  id: 'bonsai',
+  name: "盆景",
+  branchCount: 2,
+  spread: Math.PI / 4,
+  angleJitter: 0.35,
+  lenDecay: 0.74,
+  lenJitter: 0.1,
+  thickDecay: 0.68,
+  asymmetry: 0.45,
+  gravitropism: -0.1,
+  trunkLength: 0.6,
+  trunkThickness: 1.2,
+  flowerChance: 0.8,
+  depthOffset: -1,
+});
@@ -0,0 +1,57 @@
+// Resolves where the MediaPipe WASM fileset and .task models are loaded from.
+// By default everything is served from locally bundled files (see
+// `npm run assets:mediapipe`), so smile mode works offline and inside the
+// extension CSP. The public CDNs are only used when explicitly allowed.
+
+export const MEDIAPIPE_VERSION = "0.10.3";
+
+export interface VisionAssetConfig {
+  // Folder holding `wasm/` and `models/`, relative to the page or absolute
+  basePath: string;
+  // Try the public CDNs if the local files fail to load
+  allowCdnFallback: boolean;
+}
+
+export interface VisionAssetLocation {
+  origin: 'local' | 'cdn';
+  wasmPath: string;
+  faceModelPath: string;
+  gestureModelPath: string;
+}
+
+const FACE_MODEL_FILE = "face_landmarker.task";
+const GESTURE_MODEL_FILE = "gesture_recognizer.task";
+
+const CDN_LOCATION: VisionAssetLocation = {
+  origin: 'cdn',
+  wasmPath: `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`,
+  faceModelPath: `https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/${FACE_MODEL_FILE}`,
+  gestureModelPath: `https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/${GESTURE_MODEL_FILE}`,
+};
+
+let config: VisionAssetConfig = {
+  basePath: import.meta.env.VITE_MEDIAPIPE_BASE_PATH || `${import.meta.env.BASE_URL}mediapipe`,
+  allowCdnFallback: import.meta.env.VITE_MEDIAPIPE_CDN_FALLBACK === 'true',
+};
+
+export const configureVisionAssets = (overrides: Partial<VisionAssetConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+export const getVisionAssetConfig = (): VisionAssetConfig => config;
+
+// Candidate locations in the order they should be tried
+export const resolveVisionAssets = (): VisionAssetLocation[] => {
+  const base = config.basePath.replace(/\/+$/, "");
+  const locations: VisionAssetLocation[] = [{
+    origin: 'local',
+    wasmPath: `${base}/wasm`,
+    faceModelPath: `${base}/models/${FACE_MODEL_FILE}`,
+    gestureModelPath: `${base}/models/${GESTURE_MODEL_FILE}`,
+  }];
+
+  if (config.allowCdnFallback) {
+    locations.push(CDN_LOCATION);
+  }
+  return locations;
+};
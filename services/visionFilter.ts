@@ -0,0 +1,169 @@
+import { FaceMood, VisionData } from "../types";
+
+// Turns raw per-frame detections into steady VisionData:
+// - One Euro filters on mood and wrist position (smooth when still,
+//   responsive when moving fast)
+// - hysteresis on presence, so a single missed detection doesn't count
+//   as the face leaving
+// - dropout handling: a lost face holds its mood for a moment, then drifts
+//   back to neutral instead of snapping the tree to dormant
+
+export interface OneEuroConfig {
+  minCutoff: number; // Hz, smoothing at rest
+  beta: number; // How fast the cutoff opens up with speed
+  dCutoff: number; // Hz, smoothing of the speed estimate
+}
+
+export const createOneEuroFilter = ({ minCutoff, beta, dCutoff }: OneEuroConfig) => {
+  let value: number | null = null;
+  let velocity = 0; // units per second
+  let lastTime = 0;
+
+  const alpha = (cutoff: number, dt: number) => {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  };
+
+  return {
+    // `time` in ms
+    filter: (raw: number, time: number): number => {
+      if (value === null) {
+        value = raw;
+        velocity = 0;
+        lastTime = time;
+        return value;
+      }
+      const dt = Math.max((time - lastTime) / 1000, 1e-3);
+      lastTime = time;
+      velocity += alpha(dCutoff, dt) * ((raw - value) / dt - velocity);
+      value += alpha(minCutoff + beta * Math.abs(velocity), dt) * (raw - value);
+      return value;
+    },
+    velocity: (): number => velocity,
+    reset: () => {
+      value = null;
+      velocity = 0;
+    },
+  };
+};
+
+export type OneEuroFilter = ReturnType<typeof createOneEuroFilter>;
+
+// One frame of detections, mood curve already applied
+export interface VisionDetections {
+  timestamp: number; // Capture time, ms
+  faces: FaceMood[]; // Sorted left to right
+  headX: number | null; // Main face, in model order
+  handX: number | null;
+  handScore: number; // Handedness confidence, 0 without a hand
+  gesture: string | null;
+}
+
+const MOOD_FILTER: OneEuroConfig = { minCutoff: 1, beta: 0.5, dCutoff: 1 };
+const HAND_FILTER: OneEuroConfig = { minCutoff: 1.5, beta: 5, dCutoff: 1 };
+// Heavy smoothing, parallax should glide rather than jitter
+const HEAD_FILTER: OneEuroConfig = { minCutoff: 0.5, beta: 1, dCutoff: 1 };
+
+const FACE_CONFIRM_FRAMES = 2; // Consecutive detections before a face counts
+const FACE_DROPOUT_MS = 800; // Missed detections shorter than this are bridged
+const FACE_RELEASE_MS = 8000; // Then the held mood fades to neutral over this
+const PRESENCE_RATE = 0.2; // Per-frame weight of the detection rate average
+
+// Wrist speed in screen widths per second
+const HAND_DEADZONE = 0.015;
+const HAND_GAIN = 5;
+
+export const createVisionFilter = () => {
+  const moodFilter = createOneEuroFilter(MOOD_FILTER);
+  let faceFilters: OneEuroFilter[] = []; // Per left-to-right slot in group mode
+  const handFilter = createOneEuroFilter(HAND_FILTER);
+  const headFilter = createOneEuroFilter(HEAD_FILTER);
+  let headX: number | null = null;
+
+  let facePresent = false;
+  let seenStreak = 0;
+  let lastSeenAt = -Infinity;
+  let heldMood = 0;
+  let heldFaces: FaceMood[] = [];
+  let faceConfidence = 0;
+  let handConfidence = 0;
+
+  return {
+    update: (detections: VisionDetections, receivedAt: number): VisionData => {
+      const t = detections.timestamp;
+      const seen = detections.faces.length > 0;
+
+      // Face presence with hysteresis
+      faceConfidence += PRESENCE_RATE * ((seen ? 1 : 0) - faceConfidence);
+      if (seen) {
+        seenStreak++;
+        lastSeenAt = t;
+        if (seenStreak >= FACE_CONFIRM_FRAMES) facePresent = true;
+      } else {
+        seenStreak = 0;
+        if (t - lastSeenAt > FACE_DROPOUT_MS) facePresent = false;
+      }
+
+      let moodScore: number;
+      let faces: FaceMood[];
+      if (seen) {
+        const raw = detections.faces.reduce((sum, f) => sum + f.moodScore, 0) / detections.faces.length;
+        moodScore = heldMood = moodFilter.filter(raw, t);
+        if (faceFilters.length !== detections.faces.length) {
+          faceFilters = detections.faces.map(() => createOneEuroFilter(MOOD_FILTER));
+        }
+        faces = heldFaces = detections.faces.map((face, i) => ({
+          ...face,
+          moodScore: faceFilters[i].filter(face.moodScore, t),
+        }));
+        if (detections.headX !== null) headX = headFilter.filter(detections.headX, t);
+      } else {
+        // Hold through the dropout, then fade to neutral
+        const lostFor = t - lastSeenAt - FACE_DROPOUT_MS;
+        const hold = lostFor <= 0 ? 1 : Math.max(0, 1 - lostFor / FACE_RELEASE_MS);
+        moodScore = heldMood * hold;
+        faces = facePresent ? heldFaces : [];
+        if (hold === 0) {
+          moodFilter.reset();
+          faceFilters = [];
+        }
+        if (!facePresent) {
+          headFilter.reset();
+          headX = null;
+        }
+      }
+
+      // Hand: filtered wrist speed becomes the wind
+      let movementScore = 0;
+      const handPresent = detections.handX !== null;
+      if (detections.handX !== null) {
+        handFilter.filter(detections.handX, t);
+        const speed = handFilter.velocity();
+        if (Math.abs(speed) > HAND_DEADZONE) {
+          movementScore = Math.max(-1, Math.min(speed * HAND_GAIN, 1));
+        }
+        handConfidence += PRESENCE_RATE * (detections.handScore - handConfidence);
+      } else {
+        // Re-entering hands must not read as a huge jump
+        handFilter.reset();
+        handConfidence += PRESENCE_RATE * (0 - handConfidence);
+      }
+
+      return {
+        moodScore,
+        movementScore,
+        faces,
+        gesture: handPresent ? detections.gesture : null,
+        timestamp: t,
+        facePresent,
+        handPresent,
+        faceConfidence,
+        handConfidence,
+        latencyMs: receivedAt - t,
+        headX,
+      };
+    },
+  };
+};
+
+export type VisionFilter = ReturnType<typeof createVisionFilter>;
@@ -0,0 +1,33 @@
+import { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import { MouthScores } from "../types";
+import { VisionAssetLocation } from "./visionAssets";
+
+// Messages between visionService (main thread) and visionWorker
+
+export type VisionWorkerRequest =
+  | { type: 'init'; locations: VisionAssetLocation[]; numFaces: number; debug: boolean }
+  | { type: 'options'; numFaces: number }
+  // Include raw landmarks in results (diagnostics overlay only)
+  | { type: 'debug'; enabled: boolean }
+  // Ownership of the bitmap is transferred, the worker closes it
+  | { type: 'frame'; frame: ImageBitmap; timestamp: number };
+
+export interface VisionLandmarks {
+  faces: NormalizedLandmark[][];
+  hands: NormalizedLandmark[][];
+}
+
+// Raw model output for one frame, mood curves are applied on the main thread
+export interface VisionFrameResult {
+  timestamp: number; // performance.now() on the main thread when the frame was captured
+  faces: { mouth: MouthScores; x: number }[]; // x = mirrored nose position
+  handX: number | null; // Wrist position, null without a hand
+  handScore: number; // Handedness confidence, 0 without a hand
+  gesture: string | null;
+  landmarks?: VisionLandmarks; // Only while debug is enabled
+}
+
+export type VisionWorkerResponse =
+  | { type: 'ready'; origin: VisionAssetLocation['origin'] }
+  | { type: 'error'; message: string }
+  | { type: 'result'; result: VisionFrameResult };
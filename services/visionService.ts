@@ -1,140 +1,243 @@
-import {
-  FilesetResolver,
-  FaceLandmarker,
-  GestureRecognizer,
-  DrawingUtils
-} from "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/+esm";
-
-import { VisionData } from "../types";
+import { VisionData, MoodCurve, MouthScores, FaceMood } from "../types";
+import { resolveVisionAssets, VisionAssetLocation } from "./visionAssets";
+import { applyMoodCurve, DEFAULT_MOOD_CURVE } from "./moodCalibration";
+import { VisionFrameResult, VisionLandmarks, VisionWorkerRequest, VisionWorkerResponse } from "./visionMessages";
+import { createVisionFilter } from "./visionFilter";
+
+// Face / hand tracking. The MediaPipe models run in visionWorker; this side
+// grabs camera frames at a throttled rate, ships them over as ImageBitmaps
+// and turns the results into VisionData (filtered, see visionFilter).
+// analyzeFrame never blocks, it returns whatever result arrived last.
+
+const EMPTY_VISION_DATA: VisionData = {
+  moodScore: 0,
+  movementScore: 0,
+  faces: [],
+  gesture: null,
+  timestamp: 0,
+  facePresent: false,
+  handPresent: false,
+  faceConfidence: 0,
+  handConfidence: 0,
+  latencyMs: 0,
+  headX: null,
+};
 
-let faceLandmarker: FaceLandmarker | null = null;
-let gestureRecognizer: GestureRecognizer | null = null;
+let worker: Worker | null = null;
+let ready = false;
+let inFlight = false; // One frame at a time, the worker answers each
+let lastSentAt = -Infinity;
 let lastVideoTime = -1;
-let lastHandX = 0;
+let filter = createVisionFilter();
+let moodCurve: MoodCurve = DEFAULT_MOOD_CURVE;
+// Last raw blendshapes seen, read by the calibration flow
+let lastMouthScores: MouthScores | null = null;
+let lastVisionData: VisionData = EMPTY_VISION_DATA;
+
+// Diagnostics overlay, nothing here leaves the page
+let debugEnabled = false;
+let lastLandmarks: VisionLandmarks | null = null;
+let measuredFps = 0; // Results actually coming back per second
+let lastResultAt = 0;
+const STALE_RESULT_MS = 500; // No result for this long, the hand counts as still
+
+// Group mode tracks several people at once (lobby installation)
+export const MAX_GROUP_FACES = 6;
+let numFaces = 1;
+
+// Inference rate, independent of the render frame rate
+export const DEFAULT_INFERENCE_FPS = 15;
+let inferenceFps = DEFAULT_INFERENCE_FPS;
 
 // Singleton promise to prevent double initialization in React Strict Mode
 let initializationPromise: Promise<void> | null = null;
 
+const post = (message: VisionWorkerRequest, transfer: Transferable[] = []) => {
+  worker?.postMessage(message, transfer);
+};
+
+const handleResult = (result: VisionFrameResult) => {
+  inFlight = false;
+
+  const now = performance.now();
+  if (lastResultAt > 0) {
+    measuredFps += 0.1 * (1000 / Math.max(now - lastResultAt, 1) - measuredFps);
+  }
+  lastResultAt = now;
+  lastLandmarks = result.landmarks ?? null;
+
+  const faces: FaceMood[] = result.faces.map(face => ({
+    // Per-user baseline/gain from calibration (defaults are ultra sensitive)
+    moodScore: applyMoodCurve(face.mouth, moodCurve),
+    x: face.x,
+  }));
+  lastMouthScores = result.faces[0]?.mouth ?? null;
+
+  // Left to right so trees keep their person between frames
+  faces.sort((a, b) => a.x - b.x);
+
+  lastVisionData = filter.update(
+    {
+      timestamp: result.timestamp,
+      faces,
+      headX: result.faces[0]?.x ?? null,
+      handX: result.handX,
+      handScore: result.handScore,
+      gesture: result.gesture,
+    },
+    now
+  );
+};
+
+// Worker died or failed to load, the next initializeVision starts a new one
+const dropWorker = (instance: Worker) => {
+  instance.terminate();
+  if (worker !== instance) return;
+  worker = null;
+  ready = false;
+  inFlight = false;
+  initializationPromise = null;
+  lastVisionData = EMPTY_VISION_DATA;
+};
+
+const startWorker = (locations: VisionAssetLocation[]): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const instance = new Worker(new URL("./visionWorker.ts", import.meta.url), { type: "module" });
+
+    instance.onmessage = (event: MessageEvent<VisionWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'ready':
+          ready = true;
+          resolve();
+          break;
+        case 'error':
+          dropWorker(instance);
+          reject(new Error(message.message));
+          break;
+        case 'result':
+          handleResult(message.result);
+          break;
+      }
+    };
+    instance.onerror = (event) => {
+      // Also after 'ready', then the promise is settled already and only the
+      // reset matters
+      console.error("Vision worker failed:", event.message);
+      dropWorker(instance);
+      reject(new Error(event.message || "Vision worker failed to start"));
+    };
+
+    worker = instance;
+    post({ type: 'init', locations, numFaces, debug: debugEnabled });
+  });
+
 export const initializeVision = (): Promise<void> => {
   // If already initializing or initialized, return the existing promise
   if (initializationPromise) {
     return initializationPromise;
   }
 
-  initializationPromise = (async () => {
-    try {
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm"
-      );
-
-      // Initialize Face Landmarker
-      // Removed delegate: "GPU" to prevent fallback errors and hangs on incompatible devices.
-      // Defaulting to CPU/WASM is more stable for this version.
-      faceLandmarker = await FaceLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath: `https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task`,
-        },
-        outputFaceBlendshapes: true,
-        runningMode: "VIDEO",
-        numFaces: 1,
-      });
-
-      // Initialize Gesture Recognizer
-      gestureRecognizer = await GestureRecognizer.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath:
-            "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-        },
-        runningMode: "VIDEO",
-        numHands: 1,
-      });
-    } catch (error) {
-      console.error("Failed to initialize vision models:", error);
-      // Reset promise so retry is possible
-      initializationPromise = null;
-      throw error;
-    }
-  })();
-
-  return initializationPromise;
+  // The worker resolves paths against its own URL, hand it absolute ones
+  const absolute = (path: string) => new URL(path, window.location.href).href;
+  const locations = resolveVisionAssets().map(assets => ({
+    ...assets,
+    wasmPath: absolute(assets.wasmPath),
+    faceModelPath: absolute(assets.faceModelPath),
+    gestureModelPath: absolute(assets.gestureModelPath),
+  }));
+
+  const promise = startWorker(locations).catch((error) => {
+    console.error("Failed to initialize vision models:", error);
+    // Reset promise so retry is possible, unless a retry already started
+    if (initializationPromise === promise) initializationPromise = null;
+    throw error;
+  });
+  initializationPromise = promise;
+
+  return promise;
+};
+
+export const setMoodCurve = (curve: MoodCurve) => {
+  moodCurve = curve;
+};
+
+export const getMoodCurve = (): MoodCurve => moodCurve;
+
+export const setGroupMode = async (enabled: boolean) => {
+  numFaces = enabled ? MAX_GROUP_FACES : 1;
+  // A worker started later picks numFaces up on init
+  if (ready) post({ type: 'options', numFaces });
+};
+
+export const setInferenceRate = (fps: number) => {
+  inferenceFps = Math.max(1, fps);
+};
+
+export const getInferenceRate = (): number => inferenceFps;
+
+export const getLastMouthScores = (): MouthScores | null => lastMouthScores;
+
+// Latest filtered result, for status displays
+export const getLastVisionData = (): VisionData => lastVisionData;
+
+export interface VisionDebugInfo {
+  landmarks: VisionLandmarks | null;
+  mouth: MouthScores | null;
+  inferenceFps: number;
+}
+
+export const setVisionDebug = (enabled: boolean) => {
+  debugEnabled = enabled;
+  lastLandmarks = null;
+  if (ready) post({ type: 'debug', enabled });
+};
+
+export const getVisionDebugInfo = (): VisionDebugInfo => ({
+  landmarks: lastLandmarks,
+  mouth: lastMouthScores,
+  inferenceFps: measuredFps,
+});
+
+// Start over (e.g. new camera), nothing carries over from the old stream
+export const resetVisionFilter = () => {
+  filter = createVisionFilter();
+  lastVisionData = EMPTY_VISION_DATA;
+};
+
+// Grabs the current camera frame for the worker if it is due
+const sendFrame = (video: HTMLVideoElement, now: number) => {
+  inFlight = true;
+  lastSentAt = now;
+  lastVideoTime = video.currentTime;
+  createImageBitmap(video)
+    .then(frame => post({ type: 'frame', frame, timestamp: now }, [frame]))
+    .catch((error) => {
+      console.warn("Failed to capture camera frame:", error);
+      inFlight = false;
+    });
 };
 
 export const analyzeFrame = (video: HTMLVideoElement): VisionData => {
   // Safety check: Ensure models are loaded and video has valid dimensions
-  if (
-    !faceLandmarker || 
-    !gestureRecognizer || 
-    video.currentTime === lastVideoTime ||
-    video.videoWidth === 0 || 
-    video.videoHeight === 0
-  ) {
-    return { moodScore: 0, movementScore: 0 };
+  if (!ready || video.videoWidth === 0 || video.videoHeight === 0) {
+    return EMPTY_VISION_DATA;
   }
 
-  lastVideoTime = video.currentTime;
-  let moodScore = 0;
-  let movementScore = 0;
-
-  // 1. Face Analysis
-  try {
-    const faceResult = faceLandmarker.detectForVideo(video, performance.now());
-    
-    if (
-      faceResult.faceBlendshapes &&
-      faceResult.faceBlendshapes.length > 0 &&
-      faceResult.faceBlendshapes[0].categories
-    ) {
-      const shapes = faceResult.faceBlendshapes[0].categories;
-      
-      // Extract smile and frown probabilities
-      const smileLeft = shapes.find((s) => s.categoryName === "mouthSmileLeft")?.score || 0;
-      const smileRight = shapes.find((s) => s.categoryName === "mouthSmileRight")?.score || 0;
-      const frownLeft = shapes.find((s) => s.categoryName === "mouthFrownLeft")?.score || 0;
-      const frownRight = shapes.find((s) => s.categoryName === "mouthFrownRight")?.score || 0;
-
-      const smileAvg = (smileLeft + smileRight) / 2;
-      const frownAvg = (frownLeft + frownRight) / 2;
-
-      // ULTRA HIGH SENSITIVITY
-      const THRESHOLD = 0.005; 
-      
-      if (smileAvg > THRESHOLD) {
-        moodScore = Math.min((smileAvg - THRESHOLD) * 40.0, 1);
-      } else if (frownAvg > THRESHOLD) {
-        moodScore = -Math.min((frownAvg - THRESHOLD) * 40.0, 1);
-      } else {
-        moodScore = 0;
-      }
-    }
-  } catch (e) {
-    console.warn("Face detection error:", e);
+  const now = performance.now();
+  if (
+    !inFlight &&
+    video.currentTime !== lastVideoTime &&
+    now - lastSentAt >= 1000 / inferenceFps
+  ) {
+    sendFrame(video, now);
   }
 
-  // 2. Hand/Gesture Analysis (Waving)
-  try {
-    const gestureResult = gestureRecognizer.recognizeForVideo(video, performance.now());
-    
-    if (gestureResult.landmarks && gestureResult.landmarks.length > 0) {
-      const wrist = gestureResult.landmarks[0][0];
-      const currentX = wrist.x;
-      
-      // Calculate signed delta X for directional wind
-      const deltaX = currentX - lastHandX;
-      const speed = Math.abs(deltaX);
-
-      // Lower threshold for movement detection
-      if (speed > 0.0005) {
-         // Massive multiplier for instant wind reaction
-         movementScore = Math.max(-1, Math.min(deltaX * 150, 1));
-      }
-      
-      lastHandX = currentX;
-    } else {
-      movementScore = 0;
-    }
-  } catch (e) {
-    console.warn("Gesture detection error:", e);
+  // Render loop runs faster than inference: repeat the last result until the
+  // next one arrives. Hand movement is a filtered velocity, so it holds too,
+  // unless results have stopped coming.
+  if (now - lastResultAt > STALE_RESULT_MS) {
+    return { ...lastVisionData, movementScore: 0 };
   }
-
-  return { moodScore, movementScore };
-};
\ No newline at end of file
+  return lastVisionData;
+};
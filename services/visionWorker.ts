@@ -0,0 +1,175 @@
+import {
+  FilesetResolver,
+  FaceLandmarker,
+  GestureRecognizer
+} from "@mediapipe/tasks-vision";
+
+import { MouthScores } from "../types";
+import { VisionAssetLocation } from "./visionAssets";
+import { VisionFrameResult, VisionWorkerRequest, VisionWorkerResponse } from "./visionMessages";
+
+// MediaPipe inference off the render thread. Started by visionService,
+// receives camera frames as ImageBitmaps and answers every frame with
+// exactly one result, so the main thread knows when it can send the next.
+
+const MIN_GESTURE_SCORE = 0.6;
+
+// lib is DOM only, type the worker scope by hand
+const scope = self as unknown as {
+  postMessage: (message: VisionWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<VisionWorkerRequest>) => void) | null;
+};
+
+let faceLandmarker: FaceLandmarker | null = null;
+let gestureRecognizer: GestureRecognizer | null = null;
+let debug = false;
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+// MediaPipe 0.10.3 loads its wasm loader with importScripts() whenever that
+// exists, and in a module worker that call throws. Load the loader as a
+// module ourselves instead: it hands its factory to an AMD `define`, which
+// we catch to set the global MediaPipe looks for. The returned fileset has
+// no loader path, so MediaPipe skips loading it again.
+const loadWasmFileset = async (wasmPath: string): Promise<WasmFileset> => {
+  const fileset = await FilesetResolver.forVisionTasks(wasmPath);
+  const global = self as unknown as { ModuleFactory?: unknown; define?: unknown };
+
+  if (!global.ModuleFactory) {
+    const define = (_deps: unknown, factory: () => unknown) => {
+      global.ModuleFactory = factory();
+    };
+    global.define = Object.assign(define, { amd: true });
+    try {
+      await import(/* @vite-ignore */ fileset.wasmLoaderPath);
+    } finally {
+      delete global.define;
+    }
+    if (!global.ModuleFactory) {
+      throw new Error(`No wasm loader in ${fileset.wasmLoaderPath}`);
+    }
+  }
+  return { wasmLoaderPath: "", wasmBinaryPath: fileset.wasmBinaryPath };
+};
+
+const loadModels = async (assets: VisionAssetLocation, numFaces: number) => {
+  const vision = await loadWasmFileset(assets.wasmPath);
+
+  // Removed delegate: "GPU" to prevent fallback errors and hangs on incompatible devices.
+  // Defaulting to CPU/WASM is more stable for this version.
+  const face = await FaceLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: assets.faceModelPath,
+    },
+    outputFaceBlendshapes: true,
+    runningMode: "VIDEO",
+    numFaces,
+  });
+
+  const gesture = await GestureRecognizer.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: assets.gestureModelPath,
+    },
+    runningMode: "VIDEO",
+    numHands: 1,
+  });
+
+  faceLandmarker = face;
+  gestureRecognizer = gesture;
+};
+
+const init = async (locations: VisionAssetLocation[], numFaces: number) => {
+  let lastError: unknown = null;
+
+  // Local bundle first, CDN only if the config opted in
+  for (const assets of locations) {
+    try {
+      await loadModels(assets, numFaces);
+      scope.postMessage({ type: 'ready', origin: assets.origin });
+      return;
+    } catch (error) {
+      console.warn(`Failed to load vision models from ${assets.origin} assets:`, error);
+      lastError = error;
+    }
+  }
+
+  scope.postMessage({ type: 'error', message: String(lastError) });
+};
+
+const analyze = (frame: ImageBitmap, timestamp: number): VisionFrameResult => {
+  const result: VisionFrameResult = { timestamp, faces: [], handX: null, handScore: 0, gesture: null };
+  if (!faceLandmarker || !gestureRecognizer) return result;
+  if (debug) result.landmarks = { faces: [], hands: [] };
+
+  // 1. Face Analysis
+  try {
+    const faceResult = faceLandmarker.detectForVideo(frame, timestamp);
+    if (result.landmarks) result.landmarks.faces = faceResult.faceLandmarks ?? [];
+
+    (faceResult.faceBlendshapes || []).forEach((blendshape, i) => {
+      const shapes = blendshape.categories;
+      if (!shapes) return;
+
+      // Extract smile and frown probabilities
+      const smileLeft = shapes.find((s) => s.categoryName === "mouthSmileLeft")?.score || 0;
+      const smileRight = shapes.find((s) => s.categoryName === "mouthSmileRight")?.score || 0;
+      const frownLeft = shapes.find((s) => s.categoryName === "mouthFrownLeft")?.score || 0;
+      const frownRight = shapes.find((s) => s.categoryName === "mouthFrownRight")?.score || 0;
+
+      const mouth: MouthScores = {
+        smile: (smileLeft + smileRight) / 2,
+        frown: (frownLeft + frownRight) / 2,
+      };
+
+      // Nose tip, mirrored so a person on the left of the screen reads as x < 0.5
+      const nose = faceResult.faceLandmarks?.[i]?.[1];
+      result.faces.push({ mouth, x: nose ? 1 - nose.x : 0.5 });
+    });
+  } catch (e) {
+    console.warn("Face detection error:", e);
+  }
+
+  // 2. Hand/Gesture Analysis
+  try {
+    const gestureResult = gestureRecognizer.recognizeForVideo(frame, timestamp);
+    if (result.landmarks) result.landmarks.hands = gestureResult.landmarks ?? [];
+
+    if (gestureResult.landmarks && gestureResult.landmarks.length > 0) {
+      result.handX = gestureResult.landmarks[0][0].x;
+      result.handScore = gestureResult.handednesses?.[0]?.[0]?.score ?? 0;
+
+      // Recognized hand pose, ignored when the recognizer is unsure
+      const top = gestureResult.gestures?.[0]?.[0];
+      if (top && top.categoryName !== "None" && top.score >= MIN_GESTURE_SCORE) {
+        result.gesture = top.categoryName;
+      }
+    }
+  } catch (e) {
+    console.warn("Gesture detection error:", e);
+  }
+
+  return result;
+};
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      debug = message.debug;
+      init(message.locations, message.numFaces);
+      break;
+    case 'debug':
+      debug = message.enabled;
+      break;
+    case 'options':
+      faceLandmarker?.setOptions({ numFaces: message.numFaces });
+      break;
+    case 'frame':
+      try {
+        scope.postMessage({ type: 'result', result: analyze(message.frame, message.timestamp) });
+      } finally {
+        message.frame.close();
+      }
+      break;
+  }
+};
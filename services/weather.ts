@@ -0,0 +1,99 @@
+import { Season } from "./environment";
+
+// Weather on top of the season: rain, snowfall and gusts. Picked by the user
+// or, on 'auto', derived from mood - a long stretch of sadness brings rain
+// (snow in winter), cheering up clears the sky again.
+
+export type WeatherKind = 'clear' | 'rain' | 'snow' | 'gusty';
+export type WeatherSetting = WeatherKind | 'auto';
+
+export const WEATHER_NAMES: Record<WeatherSetting, string> = {
+  auto: "随心情",
+  clear: "晴",
+  rain: "雨",
+  snow: "雪",
+  gusty: "阵风",
+};
+
+export interface WeatherConditions {
+  kind: WeatherKind;
+  rain: number; // 0..1 intensity
+  snow: number; // 0..1 intensity
+  settledSnow: number; // 0..1 snow built up on the branches
+  gust: number; // Signed force added on top of the wind
+}
+
+export const CLEAR_WEATHER: WeatherConditions = { kind: 'clear', rain: 0, snow: 0, settledSnow: 0, gust: 0 };
+
+const GLOOM_MOOD = -0.3; // Mood that counts as gloomy
+const RAIN_AFTER_SECONDS = 20; // Gloom needed before it starts to rain
+const GLOOM_MAX_SECONDS = 60;
+const EASE_PER_SECOND = 0.25; // Intensity change rate when weather switches
+const SETTLE_SECONDS = 20; // Full snow cover at full intensity
+const MELT_SECONDS = 40;
+const GUST_PERIOD_MS = 6000;
+const GUST_LENGTH = 0.25; // Share of the period a gust lasts
+const GUST_STRENGTH = 0.8;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// Time-based so headless renders with a fixed clock stay deterministic
+const gustAt = (now: number, strength: number) => {
+  const cycle = Math.floor(now / GUST_PERIOD_MS);
+  const phase = (now % GUST_PERIOD_MS) / GUST_PERIOD_MS;
+  if (phase > GUST_LENGTH) return 0;
+  const envelope = Math.sin((Math.PI * phase) / GUST_LENGTH) ** 2;
+  // Alternate direction, slightly varied strength
+  const direction = cycle % 2 === 0 ? 1 : -0.6;
+  return envelope * direction * strength;
+};
+
+export const createWeather = () => {
+  let gloom = 0; // Seconds of accumulated gloom
+  let rain = 0;
+  let snow = 0;
+  let settledSnow = 0;
+  let gustStrength = 0;
+  let lastTick: number | null = null;
+
+  const ease = (current: number, target: number, dt: number) =>
+    current < target
+      ? Math.min(target, current + EASE_PER_SECOND * dt)
+      : Math.max(target, current - EASE_PER_SECOND * dt);
+
+  return {
+    // Called every frame with the smoothed mood, null while nobody's mood
+    // is being read (idle click / voice sources rest below GLOOM_MOOD)
+    update: (now: number, mood: number | null, setting: WeatherSetting, season: Season): WeatherConditions => {
+      const dt = lastTick === null ? 0 : Math.min((now - lastTick) / 1000, 1);
+      lastTick = now;
+
+      gloom = mood !== null && mood < GLOOM_MOOD ? gloom + dt : gloom - dt * 2;
+      gloom = Math.max(0, Math.min(GLOOM_MAX_SECONDS, gloom));
+
+      let kind: WeatherKind = setting === 'auto' ? 'clear' : setting;
+      let precipitation = kind === 'rain' || kind === 'snow' ? 1 : 0;
+      if (setting === 'auto' && gloom >= RAIN_AFTER_SECONDS) {
+        kind = season === 'winter' ? 'snow' : 'rain';
+        precipitation = Math.min(1, 0.4 + (gloom - RAIN_AFTER_SECONDS) / 30);
+      }
+
+      rain = ease(rain, kind === 'rain' ? precipitation : 0, dt);
+      snow = ease(snow, kind === 'snow' ? precipitation : 0, dt);
+      // Heavy rain comes with its own gusts
+      gustStrength = ease(gustStrength, kind === 'gusty' ? 1 : rain * 0.5, dt);
+
+      settledSnow = snow > 0
+        ? clamp01(settledSnow + (snow * dt) / SETTLE_SECONDS)
+        : clamp01(settledSnow - dt / MELT_SECONDS);
+
+      return {
+        kind,
+        rain,
+        snow,
+        settledSnow,
+        gust: gustAt(now, gustStrength * GUST_STRENGTH),
+      };
+    },
+  };
+};
@@ -4,11 +4,115 @@ export interface TreeState {
   mood: number; 
   // 0 to 1, intensity of wind based on hand waving
   windForce: number;
+  // Group mode: individual moods by horizontal position. In the forest scene
+  // each person drives the trees closest to them, `mood` is the aggregate.
+  people?: FaceMood[];
+  // 0 (left) to 1 (right), mirrored like `people`. Head of the main face,
+  // layered scenes shift with it (parallax). Absent without a camera.
+  headX?: number;
+  // A live reading of someone's face rather than a source's resting value.
+  // Only then can a gloomy mood bring rain on the 'auto' weather.
+  moodSensed?: boolean;
+  // Mood (and people) already went through the vision filter, the sketch
+  // follows it as is instead of easing towards it
+  moodFiltered?: boolean;
 }
 
-export interface VisionData {
+export interface FaceMood {
   moodScore: number; // Normalized -1 to 1
+  x: number; // 0 (left) to 1 (right) in screen space, mirrored from the camera
+}
+
+export interface VisionData {
+  moodScore: number; // Normalized -1 to 1, averaged over all faces
   movementScore: number; // 0 to 1
+  faces: FaceMood[]; // One entry per detected face, sorted left to right
+  gesture: string | null; // GestureRecognizer category, e.g. "Open_Palm"
+  timestamp: number; // performance.now() when the analysed frame was captured
+  facePresent: boolean; // Debounced, stays true through short dropouts
+  handPresent: boolean;
+  faceConfidence: number; // 0..1, recent detection rate
+  handConfidence: number; // 0..1, smoothed handedness score
+  latencyMs: number; // Capture to result, inference included
+  headX: number | null; // Smoothed nose position of the first face, null without one
+}
+
+// One-shot actions that gestures (or other drivers) can trigger
+export type TreeAction = 'petalBurst' | 'moodBoost' | 'calmWind' | 'nextFlowerStyle';
+
+// Id of a species in the flower registry (services/flowerSpecies)
+export type FlowerStyle = string;
+
+// A composed scene (services/scene), built-in presets or user-made
+export interface SceneTree {
+  x: number; // 0 (left) to 1 (right), trunk position
+  y: number; // 0 (top) to 1 (bottom), where the trunk meets the ground
+  scale: number;
+  seed: number; // Skeleton shape
+  species?: string; // Tree species id, the selected species if unset
+  flowerStyle?: FlowerStyle; // Flower species id, the selected flower if unset
+  depth?: number; // 0 (front, default) to 1 (far back): smaller sway, hazier colours
+}
+
+export interface Scene {
+  id: string;
+  name: string;
+  trees: SceneTree[]; // Drawn far to near, in order within the same depth
 }
 
-export type FlowerStyle = 'peach' | 'sakura' | 'delonix';
+export interface InputSourceCapabilities {
+  // App opens the webcam once the source has started (models load first)
+  // and attaches it to the context's video element
+  needsCamera: boolean;
+  // App acquires the microphone stream before the source is started
+  needsMicrophone: boolean;
+  // Positive mood from this source counts toward long-term tree growth
+  // (smiles and laughter only, not clicks, demos or playback)
+  tendsTree: boolean;
+}
+
+export interface InputSourceContext {
+  // Hidden <video> element the camera stream is attached to
+  video: HTMLVideoElement | null;
+  // Microphone stream, only for sources that need it
+  audio: MediaStream | null;
+  // Fire a one-shot action on the tree / UI
+  dispatch: (action: TreeAction) => void;
+  // Drive the scene selectors (used by session playback)
+  setFlowerStyle: (style: FlowerStyle) => void;
+  setScene: (scene: Scene) => void;
+}
+
+// A driver that produces TreeState samples for the sketch
+export interface InputSource {
+  id: string;
+  label: string; // Shown on the mode toggle
+  iconPath: string; // SVG path (24x24 viewBox) for the mode toggle
+  capabilities: InputSourceCapabilities;
+  // Load models / open resources. Rejecting aborts the mode switch.
+  start: (context: InputSourceContext) => Promise<void>;
+  stop: () => void;
+  // Called once per animation frame while the source is active
+  sample: (now: number) => TreeState;
+  // Optional reaction to a click/tap anywhere on the screen
+  handleClick?: () => void;
+  // Sources that need something loaded first (e.g. a recording) are hidden until available
+  isAvailable?: () => boolean;
+}
+
+// Raw mouth blendshape scores (0 to 1) averaged over left/right
+export interface MouthScores {
+  smile: number;
+  frown: number;
+}
+
+// Maps raw mouth blendshapes to a mood score.
+// mood = clamp((score - baseline - deadzone) * gain, 0, 1) ^ exponent
+export interface MoodCurve {
+  smileBaseline: number;
+  smileGain: number;
+  frownBaseline: number;
+  frownGain: number;
+  deadzone: number;
+  exponent: number; // 1 = linear, < 1 = more responsive to subtle expressions
+}
@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Folder serving the MediaPipe wasm/ and models/ (defaults to `<base>mediapipe`)
+  readonly VITE_MEDIAPIPE_BASE_PATH?: string;
+  // "true" to fall back to the public CDNs when local assets are missing
+  readonly VITE_MEDIAPIPE_CDN_FALLBACK?: string;
+}